@@ -0,0 +1,55 @@
+import inquirer from "inquirer";
+
+/**
+ * browser: open the authorization page and wait for the localhost callback.
+ * manual: print the page URL and read the redirect URL (or code) from stdin,
+ * for SSH sessions and containers. device: sign in on another device with a
+ * short code (YouTube only).
+ */
+export type AuthMode = "browser" | "manual" | "device";
+
+/**
+ * Accepts either the full redirect URL the browser ended up on or just the
+ * value of its "code" parameter.
+ */
+export function parseAuthorizationResponse(
+  input: string,
+  expectedState?: string
+): string {
+  const trimmed = input.trim();
+  if (!/^https?:\/\//i.test(trimmed)) {
+    return trimmed;
+  }
+
+  const params = new URL(trimmed).searchParams;
+  const error = params.get("error");
+  if (error) {
+    throw new Error(`Authorization failed: ${error}`);
+  }
+  if (expectedState && params.get("state") !== expectedState) {
+    throw new Error("Invalid state parameter in the pasted URL.");
+  }
+  const code = params.get("code");
+  if (!code) {
+    throw new Error("The pasted URL does not contain an authorization code.");
+  }
+  return code;
+}
+
+export async function promptForAuthorizationCode(
+  serviceName: string,
+  expectedState?: string
+): Promise<string> {
+  console.log(
+    `\nOpen the URL above in any browser and authorize the app. The browser is then sent to the ${serviceName} redirect URI; that page may fail to load, which is fine.`
+  );
+  const { response } = await inquirer.prompt<{ response: string }>([
+    {
+      name: "response",
+      message: "Paste the full URL from the address bar (or just the code):",
+      validate: (value: string) =>
+        value.trim() ? true : "The URL or code is required.",
+    },
+  ]);
+  return parseAuthorizationResponse(response, expectedState);
+}
@@ -0,0 +1,108 @@
+import * as Conf from "conf";
+import { MatchPreference } from "./matcher.js";
+
+/** Another video the search found, offered again when reviewing. */
+export interface CachedCandidate {
+  videoId: string;
+  videoTitle: string;
+  channelTitle: string;
+  score: number;
+}
+
+export interface CachedMatch {
+  /** null when the track was skipped during a transfer review. */
+  videoId: string | null;
+  videoTitle?: string;
+  channelTitle?: string;
+  trackName?: string;
+  artists?: string[];
+  score: number;
+  /** Missing on entries cached by older versions. */
+  alternatives?: CachedCandidate[];
+  /** Missing on entries cached before preferences existed. */
+  preference?: MatchPreference;
+  cachedAt: number;
+  pinned?: boolean;
+}
+
+interface MatchCacheSchema {
+  matches: Record<string, CachedMatch>;
+}
+
+const matchCache = new Conf.default<MatchCacheSchema>({
+  projectName: "spotify-youtube-playlist-porter",
+  configName: "match-cache",
+  defaults: { matches: {} },
+});
+
+export function getMatchCachePath(): string {
+  return matchCache.path;
+}
+
+export function getCachedMatch(
+  spotifyTrackId: string | null
+): CachedMatch | undefined {
+  if (!spotifyTrackId) return undefined;
+  return matchCache.get("matches")[spotifyTrackId];
+}
+
+export function listCachedMatches(): [string, CachedMatch][] {
+  return Object.entries(matchCache.get("matches"));
+}
+
+/**
+ * Stores an automatic match. Pinned entries win over anything found by
+ * searching, so they are never overwritten here.
+ */
+export function cacheMatch(
+  spotifyTrackId: string | null,
+  match: Omit<CachedMatch, "cachedAt" | "pinned">
+): void {
+  if (!spotifyTrackId || getCachedMatch(spotifyTrackId)?.pinned) return;
+  matchCache.set(`matches.${spotifyTrackId}`, {
+    ...match,
+    cachedAt: Date.now(),
+  });
+}
+
+export function pinMatch(
+  spotifyTrackId: string,
+  videoId: string | null,
+  details: Pick<
+    CachedMatch,
+    "videoTitle" | "channelTitle" | "trackName" | "artists"
+  > = {}
+): void {
+  matchCache.set(`matches.${spotifyTrackId}`, {
+    ...getCachedMatch(spotifyTrackId),
+    ...details,
+    videoId,
+    score: 1,
+    cachedAt: Date.now(),
+    pinned: true,
+  });
+}
+
+export function invalidateMatches(spotifyTrackIds: string[]): number {
+  const matches = { ...matchCache.get("matches") };
+  let removed = 0;
+  for (const id of spotifyTrackIds) {
+    if (matches[id]) {
+      delete matches[id];
+      removed++;
+    }
+  }
+  matchCache.set("matches", matches);
+  return removed;
+}
+
+export function clearMatchCache(includePinned: boolean): number {
+  const matches = matchCache.get("matches");
+  const kept = Object.fromEntries(
+    Object.entries(matches).filter(
+      ([, match]) => !includePinned && match.pinned
+    )
+  );
+  matchCache.set("matches", kept);
+  return Object.keys(matches).length - Object.keys(kept).length;
+}
@@ -1,25 +1,112 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import config, {
   getCallbackPort,
+  getPlaylistDefaults,
+  getMatchPreference,
   clearConfig,
   clearTokens,
+  deleteSpotifyToken,
+  deleteGoogleToken,
+  getSecret,
+  setSecret,
+  deleteSecret,
+  getSecretBackend,
+  getSecretsPath,
+  openSecretStore,
+  migrateSecrets,
+  DEFAULT_PROFILE,
+  listProfiles,
+  getActiveProfile,
+  getCurrentProfile,
+  useProfile,
+  setActiveProfile,
+  addProfile,
+  removeProfile,
   SpotifyToken,
 } from './config.js';
-import { readFileSync } from 'node:fs';
+import { SecretName, SECRET_NAMES, SECRET_ENV_VARS } from "./secrets.js";
+import {
+  SettingKey,
+  SettingValues,
+  SETTINGS,
+  settingFlag,
+  settingEnvVar,
+  findSetting,
+  parseSettingValue,
+  readSettingsFile,
+  resolveSettings,
+  getSetting,
+  setSetting,
+  unsetSetting,
+} from "./settings.js";
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
-import { dirname, resolve } from 'node:path';
+import { dirname, resolve, join } from 'node:path';
 import {
   getSpotifyToken,
   createSpotifyClient,
   getCurrentUserSpotify,
-  getUserPlaylistsSpotify,
-  SpotifyPlaylist,
+  createSpotifyProvider,
 } from "./spotify.js";
-import { getYouTubeToken, createYouTubeClient } from "./youtube.js";
-import { transferPlaylist } from "./transfer.js";
+import {
+  getYouTubeToken,
+  createYouTubeClient,
+  parseYouTubeVideoId,
+  createYouTubeProvider,
+} from "./youtube.js";
+import {
+  createFileSourceProvider,
+  EXPORT_FORMATS,
+  ExportedTrack,
+  serializePlaylist,
+  playlistFileName,
+} from "./files.js";
+import {
+  Playlist,
+  SourceProvider,
+  DestinationProvider,
+  PlaylistPrivacy,
+  PLAYLIST_PRIVACY_VALUES,
+} from "./provider.js";
+import { TEMPLATE_PLACEHOLDERS } from "./template.js";
+import { MatchPreference, MATCH_PREFERENCES } from "./matcher.js";
+import {
+  transferPlaylist,
+  syncPlaylist,
+  previewPlaylist,
+  reorderPlaylist,
+  DEFAULT_SEARCH_CONCURRENCY,
+  ExistingPlaylistPolicy,
+  EXISTING_PLAYLIST_POLICIES,
+} from "./transfer.js";
+import { createLimiter, mapConcurrently } from "./concurrency.js";
+import {
+  PlaylistMatchReport,
+  PlaylistTransferResult,
+  printMatchReport,
+  writeReportFile,
+} from "./report.js";
+import { clearJournal, listPlaylistJournals } from "./journal.js";
+import {
+  listCachedMatches,
+  invalidateMatches,
+  clearMatchCache,
+  pinMatch,
+  getMatchCachePath,
+} from "./cache.js";
+import {
+  QuotaExceededError,
+  TRACK_TRANSFER_COST,
+  TRACK_SEARCH_COST,
+  PLAYLIST_CREATE_COST,
+  getDailyQuotaLimit,
+  getQuotaUsage,
+  getRemainingQuota,
+} from "./quota.js";
+import { AuthMode } from "./auth.js";
 import { OAuth2Client } from "google-auth-library";
 import { AxiosInstance } from "axios";
 
@@ -33,262 +120,1485 @@ const version = packageJson.version;
 
 program
   .name("spotify-youtube-playlist-porter")
-  .description("Transfer Spotify playlists to YouTube.")
-  .version(version);
+  .description("Transfer playlists between Spotify and YouTube.")
+  .version(version)
+  .option(
+    "--no-browser",
+    "Do not open a browser to sign in; print the URL and paste the redirect URL or code instead"
+  )
+  .option(
+    "--device",
+    "Sign in to YouTube by entering a code on another device (Spotify falls back to --no-browser)"
+  )
+  .option(
+    "--profile <name>",
+    "Use the credentials and tokens of this profile (default: the active profile)"
+  )
+  .hook("preAction", () => {
+    const { profile } = program.opts();
+    if (!profile) return;
+    try {
+      useProfile(profile);
+    } catch (error: any) {
+      console.error(chalk.red(error.message));
+      exitWithError(error.message);
+    }
+  });
 
-program
-  .command("configure")
-  .description("Set up Spotify and Google API credentials.")
-  .action(async () => {
-    console.log(chalk.blue("--- API Credential Setup ---"));
-    console.log(
-      chalk.yellow(
-        "Credentials needed from Spotify Developer Dashboard and Google Cloud Console."
-      )
+// --json keeps stdout for one JSON document: the results or, after a fatal
+// error, { "error": message }.
+const jsonRequested = process.argv.includes("--json");
+let jsonWritten = false;
+
+function writeJson(data: unknown): void {
+  process.stdout.write(JSON.stringify(data, null, 2) + "\n");
+  jsonWritten = true;
+}
+
+/** Ends the run with exit code 1 after a fatal error. */
+function exitWithError(message: string): never {
+  if (jsonRequested && !jsonWritten) writeJson({ error: message });
+  process.exit(1);
+}
+
+/** Prompts on stderr with --json. */
+function prompt() {
+  return jsonRequested
+    ? inquirer.createPromptModule({ output: process.stderr })
+    : inquirer.prompt;
+}
+
+async function promptForPassphrase(isNew: boolean): Promise<string> {
+  if (!isNew) {
+    const { passphrase } = await prompt()<{ passphrase: string }>([
+      {
+        type: "password",
+        name: "passphrase",
+        mask: "*",
+        message: "Passphrase for the secret store:",
+      },
+    ]);
+    return passphrase;
+  }
+
+  console.log(
+    chalk.yellow(
+      "Client secrets and tokens are stored encrypted. Choose a passphrase to protect them (or set SYP_SECRET_KEY)."
+    )
+  );
+  const answers = await prompt()<{
+    passphrase: string;
+    confirmation: string;
+  }>([
+    {
+      type: "password",
+      name: "passphrase",
+      mask: "*",
+      message: "New passphrase:",
+      validate: (input: string) =>
+        input.length >= 8 ? true : "Use at least 8 characters.",
+    },
+    {
+      type: "password",
+      name: "confirmation",
+      mask: "*",
+      message: "Repeat the passphrase:",
+      validate: (input: string, answers) =>
+        input === answers?.passphrase ? true : "The passphrases do not match.",
+    },
+  ]);
+  return answers.passphrase;
+}
+
+/**
+ * Opens the secret store for commands that read or write secrets, and moves
+ * secrets left in the plain config by older versions into it.
+ */
+async function unlockSecrets(): Promise<void> {
+  try {
+    await openSecretStore(promptForPassphrase);
+  } catch (error: any) {
+    console.error(
+      chalk.red("\nCould not open the secret store:"),
+      error.message
     );
+    exitWithError(`Could not open the secret store: ${error.message}`);
+  }
+  const moved = migrateSecrets();
+  if (moved.length > 0) {
     console.log(
-      chalk.yellow(
-        "Ensure Redirect URIs match those in your API settings (defaults provided)."
+      chalk.green(
+        `Moved ${moved.join(", ")} from the plain config file into the encrypted secret store.`
       )
     );
+  }
+}
 
-    const answers = await inquirer.prompt([
-      {
-        name: "spotifyClientId",
-        message: "Spotify Client ID:",
-        default: config.get("spotifyClientId"),
-      },
-      {
-        name: "spotifyClientSecret",
-        message: "Spotify Client Secret:",
-        default: config.get("spotifyClientSecret"),
-      },
-      {
-        name: "spotifyRedirectUri",
-        message: "Spotify Redirect URI:",
-        default: config.get(
-          "spotifyRedirectUri",
-          "http://localhost:8888/spotify-callback"
-        ),
-      },
-      {
-        name: "googleClientId",
-        message: "Google Client ID:",
-        default: config.get("googleClientId"),
-      },
-      {
-        name: "googleClientSecret",
-        message: "Google Client Secret:",
-        default: config.get("googleClientSecret"),
-      },
-      {
-        name: "googleRedirectUri",
-        message: "Google Redirect URI:",
-        default: config.get(
-          "googleRedirectUri",
-          "http://localhost:8888/youtube-callback"
-        ),
-      },
-      {
-        name: "callbackPort",
-        message: "Port for OAuth callback server:",
-        default: config.get("callbackPort", 8888),
-        filter: (input) => parseInt(input, 10) || 8888,
-      },
-    ]);
+function secretPromptMessage(label: string, current?: string): string {
+  return current
+    ? `${label} (leave empty to keep the stored one):`
+    : `${label}:`;
+}
 
-    if (
-      !answers.spotifyClientId ||
-      !answers.spotifyClientSecret ||
-      !answers.googleClientId ||
-      !answers.googleClientSecret
-    ) {
+/**
+ * Asks for the credentials, offering current (the value from flags, SYP_*
+ * variables, --config or the stored configuration) as the default.
+ */
+async function promptForSettings(
+  current: <K extends SettingKey>(key: K) => SettingValues[K],
+  storesSecrets: boolean
+): Promise<SettingValues> {
+  console.log(chalk.blue("--- API Credential Setup ---"));
+  console.log(
+    chalk.yellow(
+      "Credentials needed from Spotify Developer Dashboard and Google Cloud Console."
+    )
+  );
+  console.log(
+    chalk.yellow(
+      "Ensure Redirect URIs match those in your API settings (defaults provided)."
+    )
+  );
+
+  return inquirer.prompt<SettingValues>([
+    {
+      name: "spotifyClientId",
+      message: "Spotify Client ID:",
+      default: current("spotifyClientId"),
+    },
+    {
+      type: "confirm",
+      name: "spotifyUsePkce",
+      message:
+        "Log in to Spotify with PKCE (no Client Secret needs to be stored)?",
+      default: current("spotifyUsePkce") ?? false,
+    },
+    {
+      type: "password",
+      mask: "*",
+      name: "spotifyClientSecret",
+      message: secretPromptMessage(
+        "Spotify Client Secret",
+        current("spotifyClientSecret")
+      ),
+      when: (answers) => storesSecrets && !answers.spotifyUsePkce,
+    },
+    {
+      name: "spotifyRedirectUri",
+      message: "Spotify Redirect URI:",
+      default: current("spotifyRedirectUri"),
+    },
+    {
+      name: "googleClientId",
+      message: "Google Client ID:",
+      default: current("googleClientId"),
+    },
+    {
+      type: "password",
+      mask: "*",
+      name: "googleClientSecret",
+      message: secretPromptMessage(
+        "Google Client Secret",
+        current("googleClientSecret")
+      ),
+      when: () => storesSecrets,
+    },
+    {
+      name: "googleRedirectUri",
+      message: "Google Redirect URI:",
+      default: current("googleRedirectUri"),
+    },
+    {
+      name: "callbackPort",
+      message: "Port for OAuth callback server:",
+      default: current("callbackPort") ?? 8888,
+      filter: (input) => parseInt(input, 10) || 8888,
+    },
+    {
+      name: "youtubeDailyQuota",
+      message: "YouTube Data API daily quota (units):",
+      default: current("youtubeDailyQuota") ?? 10000,
+      filter: (input) => parseInt(input, 10) || 10000,
+    },
+  ]);
+}
+
+const configureCommand = program
+  .command("configure")
+  .description(
+    "Set up Spotify and Google API credentials, interactively or from flags, SYP_* environment variables and a settings file."
+  )
+  .option("--config <file>", "Read settings from a JSON or YAML file")
+  .option(
+    "--non-interactive",
+    "Do not prompt, even when no setting flags or --config are given"
+  );
+for (const setting of SETTINGS) {
+  configureCommand.option(
+    `${settingFlag(setting)} <value>`,
+    `${setting.description} (env: ${settingEnvVar(setting)})`
+  );
+}
+
+configureCommand.action(async (options) => {
+  // Precedence: flags, then SYP_* variables, then --config, then stored.
+  let provided: SettingValues;
+  try {
+    provided = resolveSettings(
+      options,
+      options.config ? readSettingsFile(options.config) : {}
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exit(1);
+  }
+  const interactive =
+    !options.nonInteractive &&
+    !options.config &&
+    SETTINGS.every((setting) => options[setting.key] === undefined);
+
+  // The backend decides which secret store is opened, so it is saved first.
+  if (provided.secretBackend) {
+    config.set("secretBackend", provided.secretBackend);
+  }
+  await unlockSecrets();
+
+  // The env backend is read-only: secrets come from SYP_* variables.
+  const storesSecrets = getSecretBackend() === "file";
+  if (!storesSecrets) {
+    // Secrets from flags or --config would only live for this run.
+    const unstorable = SETTINGS.filter(
+      (setting) =>
+        setting.secret &&
+        provided[setting.key] !== undefined &&
+        provided[setting.key] !== getSetting(setting.key)
+    );
+    if (unstorable.length > 0) {
       console.error(
-        chalk.red("Error: All Client IDs and Secrets are required.")
+        chalk.red(
+          `Error: Secrets cannot be stored with the env backend; set ${unstorable
+            .map(settingEnvVar)
+            .join(" and ")} instead.`
+        )
       );
+      process.exitCode = 1;
       return;
     }
+  }
+  const current = <K extends SettingKey>(key: K): SettingValues[K] =>
+    provided[key] ?? getSetting(key);
 
-    config.set("spotifyClientId", answers.spotifyClientId);
-    config.set("spotifyClientSecret", answers.spotifyClientSecret);
-    config.set("spotifyRedirectUri", answers.spotifyRedirectUri);
-    config.set("googleClientId", answers.googleClientId);
-    config.set("googleClientSecret", answers.googleClientSecret);
-    config.set("googleRedirectUri", answers.googleRedirectUri);
-    config.set("callbackPort", answers.callbackPort);
+  const values: SettingValues = { ...provided };
+  if (interactive) {
+    const answers = await promptForSettings(current, storesSecrets);
+    for (const [key, answer] of Object.entries(answers)) {
+      // Empty secret answers keep the current secret.
+      if (answer !== undefined && answer !== "") {
+        Object.assign(values, { [key]: answer });
+      }
+    }
+  }
+  const value = <K extends SettingKey>(key: K): SettingValues[K] =>
+    values[key] ?? getSetting(key);
 
-    console.log(chalk.green("\nConfiguration saved successfully!"));
-    console.log(
-      chalk.yellow('Use "reset-auth" to clear existing tokens if needed.')
+  const usePkce = value("spotifyUsePkce") ?? false;
+  if (
+    !value("spotifyClientId") ||
+    (!usePkce && !value("spotifyClientSecret")) ||
+    !value("googleClientId") ||
+    !value("googleClientSecret")
+  ) {
+    console.error(
+      chalk.red(
+        "Error: All Client IDs and Secrets are required (the Spotify Client Secret only without PKCE)."
+      )
     );
-    console.log(`Config file location: ${config.path}`);
-  });
+    if (!storesSecrets) {
+      console.error(
+        chalk.yellow(
+          `With the env secret backend, set ${SECRET_ENV_VARS.spotifyClientSecret} and ${SECRET_ENV_VARS.googleClientSecret}.`
+        )
+      );
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  if (usePkce !== config.get("spotifyUsePkce", false)) {
+    // Tokens are tied to the flow that issued them.
+    deleteSpotifyToken();
+  }
+  if (usePkce) {
+    delete values.spotifyClientSecret;
+    deleteSecret("spotifyClientSecret");
+  }
+  for (const [key, newValue] of Object.entries(values)) {
+    if (!storesSecrets && findSetting(key).secret) continue;
+    setSetting(key as SettingKey, newValue);
+  }
+
+  console.log(chalk.green("\nConfiguration saved successfully!"));
+  console.log(
+    chalk.yellow('Use "reset-auth" to clear existing tokens if needed.')
+  );
+  console.log(`Config file location: ${config.path}`);
+  if (storesSecrets) {
+    console.log(`Encrypted secrets location: ${getSecretsPath()}`);
+  }
+});
 
 program
   .command("reset-auth")
   .description("Clear stored Spotify and Google authentication tokens.")
-  .action(() => {
+  .action(async () => {
+    await unlockSecrets();
     clearTokens();
   });
 
 program
   .command("reset-all")
-  .description("Clear ALL stored configuration and tokens.")
+  .description(
+    "Clear ALL stored configuration, secrets, tokens, transfer progress and cached matches."
+  )
   .action(() => {
     clearConfig();
+    clearJournal();
+    clearMatchCache(true);
   });
 
-program
-  .command("transfer")
-  .option("--all", "Transfer all playlists")
-  .option(
-    "-p, --playlist <ids...>",
-    "Specify one or more Spotify playlist IDs to transfer"
-  )
+function maskSecret(value: string): string {
+  if (value.startsWith("{")) return "******** (token)";
+  return value.length > 8 ? `********${value.slice(-4)}` : "********";
+}
+
+const configCommand = program
+  .command("config")
+  .description("Inspect and change the stored configuration.");
+
+configCommand
+  .command("show")
+  .description("Print all settings, with secrets and tokens masked.")
+  .option("--reveal", "Print secrets and tokens in full")
   .action(async (options) => {
-    console.log(chalk.blue("--- Spotify to YouTube Playlist Transfer ---"));
+    await unlockSecrets();
+    const show = (value: string) =>
+      options.reveal ? value : maskSecret(value);
 
-    if (!config.get("spotifyClientId") || !config.get("googleClientId")) {
-      console.error(chalk.red("API credentials not configured. Please run:"));
-      console.error(chalk.yellow(`  ${program.name()} configure`));
-      process.exit(1);
+    console.log(chalk.blue("--- Settings ---"));
+    for (const [key, value] of Object.entries(config.store)) {
+      const isSecret = SECRET_NAMES.includes(key as SecretName);
+      console.log(
+        `  ${key}: ${
+          isSecret
+            ? `${show(
+                typeof value === "string" ? value : JSON.stringify(value)
+              )} ${chalk.yellow("(unencrypted, from an older version)")}`
+            : JSON.stringify(value)
+        }`
+      );
     }
 
-    let spotifyToken: SpotifyToken;
-    let youtubeAuth: OAuth2Client;
-    let spotifyClient: AxiosInstance;
-    let youtubeClient: AxiosInstance;
+    console.log(chalk.blue(`--- Secrets (${getSecretBackend()} backend) ---`));
+    for (const name of SECRET_NAMES) {
+      const value = getSecret(name);
+      console.log(
+        `  ${name}: ${value === undefined ? chalk.gray("(not set)") : show(value)}`
+      );
+    }
 
-    try {
-      console.log("\nAuthenticating with Spotify...");
-      spotifyToken = await getSpotifyToken();
-      spotifyClient = createSpotifyClient(spotifyToken);
+    console.log(chalk.gray(`\nConfig file: ${config.path}`));
+    if (getSecretBackend() === "file") {
+      console.log(chalk.gray(`Secrets file: ${getSecretsPath()}`));
+    }
+  });
 
-      console.log("\nAuthenticating with Google (YouTube)...");
-      youtubeAuth = await getYouTubeToken();
-      youtubeClient = createYouTubeClient(youtubeAuth);
+function settingOrExit(key: string) {
+  try {
+    return findSetting(key);
+  } catch (error: any) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+configCommand
+  .command("get")
+  .description("Print one setting (secrets masked).")
+  .argument("<key>", "Setting name, as printed by config show")
+  .option("--reveal", "Print a secret in full")
+  .action(async (key: string, options) => {
+    const setting = settingOrExit(key);
+    if (setting.secret) await unlockSecrets();
+    const value = getSetting(setting.key);
+    if (value === undefined) {
+      console.error(chalk.gray("(not set)"));
+      process.exitCode = 1;
+      return;
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    console.log(setting.secret && !options.reveal ? maskSecret(text) : text);
+  });
+
+configCommand
+  .command("set")
+  .description("Change one setting.")
+  .argument("<key>", "Setting name, as printed by config show")
+  .argument("<value>", "New value (lists are separated by commas or spaces)")
+  .action(async (key: string, rawValue: string) => {
+    const setting = settingOrExit(key);
+    let value;
+    try {
+      value = parseSettingValue(setting, rawValue);
     } catch (error: any) {
-      console.error(chalk.red("\nAuthentication failed:"), error.message);
-      console.error(
-        chalk.yellow(
-          "Ensure credentials are correct and the callback server can run on port"
-        ),
-        getCallbackPort()
-      );
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+    if (setting.secret || setting.key === "spotifyUsePkce") {
+      await unlockSecrets();
+    }
+    if (setting.secret && getSecretBackend() !== "file") {
       console.error(
-        chalk.yellow('You might need to run "reset-auth" and try again.')
+        chalk.red(
+          `Secrets cannot be stored with the env backend; set ${settingEnvVar(
+            setting
+          )} instead.`
+        )
       );
       process.exit(1);
     }
+    if (
+      setting.key === "spotifyUsePkce" &&
+      value !== config.get("spotifyUsePkce", false)
+    ) {
+      // Tokens are tied to the flow that issued them.
+      deleteSpotifyToken();
+    }
+    setSetting(setting.key, value);
+    console.log(chalk.green(`${setting.key} updated.`));
+  });
+
+configCommand
+  .command("unset")
+  .description("Remove one setting, restoring its default if it has one.")
+  .argument("<key>", "Setting name, as printed by config show")
+  .action(async (key: string) => {
+    const setting = settingOrExit(key);
+    if (setting.secret) await unlockSecrets();
+    unsetSetting(setting.key);
+    const value = getSetting(setting.key);
+    console.log(
+      chalk.green(
+        value === undefined
+          ? `${setting.key} removed.`
+          : `${setting.key} reset to ${JSON.stringify(value)}.`
+      )
+    );
+  });
+
+const profileCommand = program
+  .command("profile")
+  .description(
+    "Manage named profiles, each with its own credentials and tokens."
+  );
+
+profileCommand
+  .command("list")
+  .description("List profiles; * marks the active one.")
+  .action(() => {
+    const active = getActiveProfile();
+    for (const name of listProfiles()) {
+      console.log(name === active ? chalk.green(`* ${name}`) : `  ${name}`);
+    }
+  });
+
+profileCommand
+  .command("add")
+  .description("Create a profile.")
+  .argument("<name>", "Profile name")
+  .option("--use", "Also make it the active profile")
+  .action((name: string, options) => {
+    try {
+      addProfile(name);
+      if (options.use) setActiveProfile(name);
+    } catch (error: any) {
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Profile "${name}" created.`));
+    console.log(
+      chalk.yellow(
+        `Set up its credentials with: ${program.name()} --profile ${name} configure`
+      )
+    );
+  });
+
+profileCommand
+  .command("remove")
+  .description("Delete a profile with its settings, secrets and tokens.")
+  .argument("<name>", "Profile name")
+  .option("-y, --yes", "Do not ask for confirmation")
+  .action(async (name: string, options) => {
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt<{ confirmed: boolean }>([
+        {
+          type: "confirm",
+          name: "confirmed",
+          message: `Delete profile "${name}" with its credentials, tokens and transfer progress?`,
+          default: false,
+        },
+      ]);
+      if (!confirmed) return;
+    }
+    try {
+      removeProfile(name);
+    } catch (error: any) {
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Profile "${name}" removed.`));
+  });
 
-    let spotifyUser;
-    let allSpotifyPlaylists: SpotifyPlaylist[];
+profileCommand
+  .command("use")
+  .description("Make a profile the active one.")
+  .argument("<name>", "Profile name")
+  .action((name: string) => {
     try {
-      spotifyUser = await getCurrentUserSpotify(spotifyClient);
+      setActiveProfile(name);
+    } catch (error: any) {
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Now using profile "${name}".`));
+  });
+
+program
+  .command("quota")
+  .description("Show today's YouTube Data API quota usage.")
+  .action(() => {
+    const usage = getQuotaUsage();
+    console.log(chalk.blue(`--- YouTube quota usage for ${usage.date} ---`));
+    for (const [callType, units] of Object.entries(usage.byCall)) {
+      console.log(`  ${callType}: ${units} units`);
+    }
+    console.log(
+      chalk.cyan(`  Total: ${usage.total} of ${getDailyQuotaLimit()} units`)
+    );
+    if (usage.exhausted) {
+      console.log(chalk.red("  YouTube reported the quota as exhausted today."));
+    }
+  });
+
+const cacheCommand = program
+  .command("cache")
+  .description("Inspect and manage cached Spotify-to-YouTube matches.");
+
+cacheCommand
+  .command("list")
+  .description("List cached matches.")
+  .option("--pinned", "Only show pinned matches")
+  .action((options) => {
+    const entries = listCachedMatches().filter(
+      ([, match]) => !options.pinned || match.pinned
+    );
+    if (entries.length === 0) {
+      console.log(chalk.yellow("The match cache is empty."));
+      return;
+    }
+    for (const [trackId, match] of entries) {
+      const track = match.trackName
+        ? `"${match.trackName}" by ${(match.artists ?? []).join(", ")}`
+        : trackId;
       console.log(
-        chalk.green(
-          `\nLogged into Spotify as: ${spotifyUser.display_name} (${spotifyUser.id})`
-        )
+        `${chalk.cyan(trackId)} ${track} -> ${match.videoId ?? "(skipped)"}${
+          match.videoTitle ? ` "${match.videoTitle}"` : ""
+        } (score: ${match.score}, ${new Date(
+          match.cachedAt
+        ).toLocaleString()})${match.pinned ? chalk.green(" [pinned]") : ""}`
       );
-      allSpotifyPlaylists = await getUserPlaylistsSpotify(
-        spotifyClient,
-        spotifyUser.id
+    }
+    console.log(
+      chalk.gray(`\n${entries.length} entries in ${getMatchCachePath()}`)
+    );
+  });
+
+cacheCommand
+  .command("invalidate")
+  .description("Remove cached matches so the tracks are searched again.")
+  .argument("[trackIds...]", "Spotify track IDs to invalidate")
+  .option("--all", "Remove all automatic matches")
+  .option("--include-pinned", "With --all, also remove pinned matches")
+  .action((trackIds: string[], options) => {
+    if (options.all) {
+      const removed = clearMatchCache(Boolean(options.includePinned));
+      console.log(chalk.green(`Removed ${removed} cached matches.`));
+      return;
+    }
+    if (trackIds.length === 0) {
+      console.error(chalk.red("Specify track IDs to invalidate, or --all."));
+      process.exit(1);
+    }
+    const removed = invalidateMatches(trackIds);
+    console.log(chalk.green(`Removed ${removed} cached matches.`));
+  });
+
+cacheCommand
+  .command("pin")
+  .description("Always use the given YouTube video for a Spotify track.")
+  .argument("<trackId>", "Spotify track ID")
+  .argument("<video>", "YouTube video ID or URL")
+  .action((trackId: string, video: string) => {
+    const videoId = parseYouTubeVideoId(video);
+    if (!videoId) {
+      console.error(chalk.red(`Not a valid YouTube video ID or URL: ${video}`));
+      process.exit(1);
+    }
+    pinMatch(trackId, videoId);
+    console.log(chalk.green(`Pinned track ${trackId} to video ${videoId}.`));
+  });
+
+interface ServiceClients {
+  spotifyClient?: AxiosInstance;
+  youtubeClient?: AxiosInstance;
+}
+
+function authMode(service: string): AuthMode {
+  const { browser, device } = program.opts();
+  if (device && service === "youtube") return "device";
+  return browser === false || device ? "manual" : "browser";
+}
+
+async function connectClients(services: string[]): Promise<ServiceClients> {
+  const needsSpotify = services.includes("spotify");
+  const needsYouTube = services.includes("youtube");
+  if (
+    (needsSpotify && !config.get("spotifyClientId")) ||
+    (needsYouTube && !config.get("googleClientId"))
+  ) {
+    const profileFlag =
+      getCurrentProfile() === DEFAULT_PROFILE
+        ? ""
+        : ` --profile ${getCurrentProfile()}`;
+    console.error(chalk.red("API credentials not configured. Please run:"));
+    console.error(chalk.yellow(`  ${program.name()}${profileFlag} configure`));
+    exitWithError("API credentials not configured.");
+  }
+  await unlockSecrets();
+  if (getCurrentProfile() !== DEFAULT_PROFILE) {
+    console.log(chalk.gray(`Using profile "${getCurrentProfile()}".`));
+  }
+
+  try {
+    const clients: ServiceClients = {};
+    if (needsSpotify) {
+      console.log("\nAuthenticating with Spotify...");
+      const spotifyToken: SpotifyToken = await getSpotifyToken(
+        authMode("spotify")
       );
-    } catch (error: any) {
+      clients.spotifyClient = createSpotifyClient(spotifyToken);
+    }
+
+    if (needsYouTube) {
+      console.log("\nAuthenticating with Google (YouTube)...");
+      const youtubeAuth: OAuth2Client = await getYouTubeToken(
+        authMode("youtube")
+      );
+      clients.youtubeClient = createYouTubeClient(youtubeAuth);
+    }
+
+    return clients;
+  } catch (error: any) {
+    console.error(chalk.red("\nAuthentication failed:"), error.message);
+    console.error(
+      chalk.yellow(
+        "Ensure credentials are correct and the callback server can run on port"
+      ),
+      getCallbackPort()
+    );
+    console.error(
+      chalk.yellow('You might need to run "reset-auth" and try again.')
+    );
+    exitWithError(`Authentication failed: ${error.message}`);
+  }
+}
+
+const SERVICES = ["spotify", "youtube"];
+
+program
+  .command("auth")
+  .description(
+    "Sign in to Spotify and/or YouTube again, replacing any stored token."
+  )
+  .argument("[services...]", "Services to sign in to (spotify, youtube)")
+  .action(async (services: string[]) => {
+    const selected = services.length > 0 ? services : SERVICES;
+    const unknown = selected.filter((service) => !SERVICES.includes(service));
+    if (unknown.length > 0) {
       console.error(
-        chalk.red("\nFailed to get Spotify user data:"),
-        error.message
+        chalk.red(
+          `Unknown service(s): ${unknown.join(", ")}. Use ${SERVICES.join(
+            " or "
+          )}.`
+        )
       );
       process.exit(1);
     }
 
-    if (allSpotifyPlaylists.length === 0) {
-      console.log(chalk.yellow("No Spotify playlists found for this user."));
-      return;
+    await unlockSecrets();
+    if (selected.includes("spotify")) deleteSpotifyToken();
+    if (selected.includes("youtube")) deleteGoogleToken();
+    const clients = await connectClients(selected);
+    if (clients.spotifyClient) {
+      await loginSpotifyUser(clients.spotifyClient);
     }
+    if (clients.youtubeClient) {
+      console.log(chalk.green("\nSigned in to Google (YouTube)."));
+    }
+  });
 
-    let playlistsToTransfer: SpotifyPlaylist[] = [];
+/** Without a preference, YouTube matches follow the matchPreference setting. */
+function createProvider(
+  service: string,
+  clients: ServiceClients,
+  preference: MatchPreference = getMatchPreference()
+): SourceProvider & DestinationProvider {
+  return service === "spotify"
+    ? createSpotifyProvider(clients.spotifyClient!)
+    : createYouTubeProvider(clients.youtubeClient!, preference);
+}
 
-    if (options.all) {
-      playlistsToTransfer = allSpotifyPlaylists;
+function loadFileSource(path: string): SourceProvider {
+  try {
+    return createFileSourceProvider(path);
+  } catch (error: any) {
+    console.error(
+      chalk.red(`\nCould not read playlists from ${path}:`),
+      error.message
+    );
+    exitWithError(`Could not read playlists from ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Authenticates only with the services taking part, so reading from a file
+ * needs no Spotify login at all.
+ */
+async function createProviders(options: {
+  from: string;
+  to: string;
+  fromFile?: string;
+  prefer?: MatchPreference;
+}): Promise<{
+  source: SourceProvider;
+  destination: DestinationProvider;
+  clients: ServiceClients;
+}> {
+  const { from, to, fromFile, prefer } = options;
+  if (
+    !SERVICES.includes(to) ||
+    (!fromFile && (!SERVICES.includes(from) || from === to))
+  ) {
+    const message = `Unsupported transfer direction: ${
+      fromFile ? "file" : from
+    } -> ${to}. Use spotify -> youtube or youtube -> spotify.`;
+    console.error(chalk.red(message));
+    exitWithError(message);
+  }
+
+  const fileSource = fromFile ? loadFileSource(fromFile) : undefined;
+  const clients = await connectClients(fileSource ? [to] : [from, to]);
+  return {
+    source: fileSource ?? createProvider(from, clients, prefer),
+    destination: createProvider(to, clients, prefer),
+    clients,
+  };
+}
+
+async function loginSpotifyUser(spotifyClient: AxiosInstance): Promise<void> {
+  try {
+    const spotifyUser = await getCurrentUserSpotify(spotifyClient);
+    console.log(
+      chalk.green(
+        `\nLogged into Spotify as: ${spotifyUser.display_name} (${spotifyUser.id})`
+      )
+    );
+  } catch (error: any) {
+    console.error(
+      chalk.red("\nFailed to get Spotify user data:"),
+      error.message
+    );
+    exitWithError(`Failed to get Spotify user data: ${error.message}`);
+  }
+}
+
+async function fetchPlaylists(source: SourceProvider): Promise<Playlist[]> {
+  try {
+    return await source.listPlaylists();
+  } catch (error: any) {
+    exitOnQuotaExceeded(error);
+    console.error(
+      chalk.red(`\nFailed to get ${source.name} playlists:`),
+      error.message
+    );
+    exitWithError(`Failed to get ${source.name} playlists: ${error.message}`);
+  }
+}
+
+async function selectPlaylists(
+  allPlaylists: Playlist[],
+  options: { all?: boolean; playlist?: string[] },
+  promptMessage: string
+): Promise<Playlist[]> {
+  let selectedPlaylists: Playlist[] = [];
+
+  if (options.all) {
+    selectedPlaylists = allPlaylists.filter((p) => !p.isLibrary);
+    console.log(
+      chalk.cyan(`Selected all ${selectedPlaylists.length} playlists.`)
+    );
+  } else if (options.playlist && options.playlist.length > 0) {
+    const ids = options.playlist;
+    selectedPlaylists = allPlaylists.filter((p) => ids.includes(p.id));
+    const foundNames = selectedPlaylists.map((p) => `"${p.name}"`).join(", ");
+    const notFoundIds = ids.filter(
+      (id: string) => !selectedPlaylists.some((p) => p.id === id)
+    );
+    console.log(
+      chalk.cyan(
+        `Selected ${selectedPlaylists.length} playlist(s) by ID: ${
+          foundNames || "None found matching provided IDs"
+        }`
+      )
+    );
+    if (notFoundIds.length > 0) {
       console.log(
-        chalk.cyan(
-          `Selected all ${playlistsToTransfer.length} playlists for transfer.`
+        chalk.yellow(
+          `Warning: Could not find playlist IDs: ${notFoundIds.join(", ")}`
         )
       );
-    } else if (options.playlist && options.playlist.length > 0) {
-      playlistsToTransfer = allSpotifyPlaylists.filter((p) =>
-        options.playlist.includes(p.id)
-      );
-      const foundNames = playlistsToTransfer
-        .map((p) => `"${p.name}"`)
-        .join(", ");
-      const notFoundIds = options.playlist.filter(
-        (id: string) => !playlistsToTransfer.some((p) => p.id === id)
-      );
+    }
+  } else {
+    const playlistChoices = allPlaylists.map((p) => ({
+      name: `${p.isLibrary ? "[Library] " : ""}${p.name} (${
+        p.trackCount
+      } tracks, ID: ${p.id})`,
+      value: p.id,
+    }));
+    const answers = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "selectedIds",
+        message: promptMessage,
+        choices: playlistChoices,
+        validate: (input) =>
+          input.length > 0 ? true : "Please select at least one playlist.",
+        pageSize: 15,
+      },
+    ]);
+    selectedPlaylists = allPlaylists.filter((p) =>
+      answers.selectedIds.includes(p.id)
+    );
+  }
+
+  return selectedPlaylists;
+}
+
+function warnIfOverQuota(
+  playlists: Playlist[],
+  unitsPerTrack: number,
+  unitsPerPlaylist: number
+): void {
+  const trackCount = playlists.reduce((sum, p) => sum + p.trackCount, 0);
+  const estimate =
+    trackCount * unitsPerTrack + playlists.length * unitsPerPlaylist;
+  const remaining = getRemainingQuota();
+  console.log(
+    chalk.gray(
+      `Estimated YouTube quota cost: up to ${estimate} units (${remaining} of ${getDailyQuotaLimit()} left today).`
+    )
+  );
+  if (estimate > remaining) {
+    console.log(
+      chalk.yellow(
+        "Warning: this run will likely exceed today's YouTube quota. It will stop when the quota runs out; continue tomorrow with --resume."
+      )
+    );
+  }
+}
+
+function exitForQuota(message: string): never {
+  console.error(chalk.red(`\n${message} Stopping.`));
+  console.error(
+    chalk.yellow(
+      "Progress has been saved. Run the same command with --resume after the quota resets (midnight Pacific Time)."
+    )
+  );
+  exitWithError(message);
+}
+
+function exitOnQuotaExceeded(error: unknown): void {
+  if (error instanceof QuotaExceededError) {
+    exitForQuota(error.message);
+  }
+}
+
+// Exit codes: 0 when everything was transferred, 1 on fatal errors
+// (configuration, authentication, quota, crashes), 2 when some tracks or
+// playlists could not be transferred.
+const EXIT_PARTIAL_FAILURE = 2;
+
+/** Keeps stdout free for --json output; progress messages go to stderr. */
+function sendLogsToStderr(): void {
+  console.log = console.error;
+}
+
+function parsePositiveInt(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidArgumentError("Must be a whole number of at least 1.");
+  }
+  return number;
+}
+
+function parsePrivacy(value: string): PlaylistPrivacy {
+  if (!PLAYLIST_PRIVACY_VALUES.includes(value as PlaylistPrivacy)) {
+    throw new InvalidArgumentError(
+      `Use one of: ${PLAYLIST_PRIVACY_VALUES.join(", ")}.`
+    );
+  }
+  return value as PlaylistPrivacy;
+}
+
+function parsePreference(value: string): MatchPreference {
+  if (!MATCH_PREFERENCES.includes(value as MatchPreference)) {
+    throw new InvalidArgumentError(
+      `Use one of: ${MATCH_PREFERENCES.join(", ")}.`
+    );
+  }
+  return value as MatchPreference;
+}
+
+const PREFER_DESCRIPTION = `Favour YouTube uploads of this kind when matching tracks: audio (album tracks, e.g. "- Topic" channels), video (official music videos) or any (default: the matchPreference setting, any)`;
+
+function parseExistingPolicy(value: string): ExistingPlaylistPolicy {
+  if (!EXISTING_PLAYLIST_POLICIES.includes(value as ExistingPlaylistPolicy)) {
+    throw new InvalidArgumentError(
+      `Use one of: ${EXISTING_PLAYLIST_POLICIES.join(", ")}.`
+    );
+  }
+  return value as ExistingPlaylistPolicy;
+}
+
+function outputResults(
+  options: { json?: boolean; report?: string },
+  data: unknown
+): void {
+  if (options.report) {
+    writeReportFile(options.report, data);
+  }
+  if (options.json) {
+    writeJson(data);
+  }
+}
+
+program
+  .command("transfer")
+  .option("--all", "Transfer all playlists (not library collections)")
+  .option(
+    "-p, --playlist <ids...>",
+    'Specify one or more playlist IDs (of the source service) to transfer, or Spotify library pseudo-IDs: "liked", "followed-artists", "album:<albumId>"'
+  )
+  .option("--from <service>", "Service to read playlists from", "spotify")
+  .option("--to <service>", "Service to create playlists on", "youtube")
+  .option(
+    "--from-file <path>",
+    "Read playlists from a Spotify data export (.json), Exportify CSV, M3U/M3U8 or XSPF file instead of a service"
+  )
+  .option(
+    "--resume",
+    "Continue unfinished transfers into their existing destination playlists"
+  )
+  .option(
+    "--review",
+    "Ask about low-confidence and missing matches before adding them"
+  )
+  .option(
+    "--dry-run",
+    "Search and match tracks without creating or changing any playlists"
+  )
+  .option(
+    "--report <file>",
+    "Write the results (or the dry-run match report) to a JSON file"
+  )
+  .option(
+    "--json",
+    "Print the results as JSON on stdout (progress messages go to stderr)"
+  )
+  .option(
+    "--concurrency <n>",
+    "Search up to n tracks at the same time (across all playlists)",
+    parsePositiveInt,
+    DEFAULT_SEARCH_CONCURRENCY
+  )
+  .option(
+    "--target <title|url|id:ID>",
+    "Transfer into this destination playlist, found by title or ID and created with this title if missing; a playlist link or id:<ID> must name an existing one. Needs exactly one source playlist"
+  )
+  .option(
+    "--on-existing <policy>",
+    `When the destination already has a playlist with the same title (or the --target): ${EXISTING_PLAYLIST_POLICIES.join(
+      ", "
+    )} (default: merge with --target, otherwise create)`,
+    parseExistingPolicy
+  )
+  .option(
+    "--privacy <status>",
+    `Privacy of the created playlists: ${PLAYLIST_PRIVACY_VALUES.join(
+      ", "
+    )} (default: the playlistPrivacy setting, private)`,
+    parsePrivacy
+  )
+  .option(
+    "--title <template>",
+    `Title of the created playlists, e.g. "{name} (from Spotify)"; placeholders: ${TEMPLATE_PLACEHOLDERS} (default: the playlistTitleTemplate setting, "{name}")`
+  )
+  .option(
+    "--description <template>",
+    'Description of the created playlists, with the same placeholders (default: the playlistDescriptionTemplate setting, "{description}")'
+  )
+  .option(
+    "--parallel <n>",
+    "Transfer up to n playlists at the same time (their progress messages interleave)",
+    parsePositiveInt,
+    1
+  )
+  .option("--prefer <kind>", PREFER_DESCRIPTION, parsePreference)
+  .action(async (options) => {
+    if (options.json) {
+      sendLogsToStderr();
+    }
+    if (options.review && options.parallel > 1) {
       console.log(
-        chalk.cyan(
-          `Selected ${playlistsToTransfer.length} playlist(s) by ID: ${
-            foundNames || "None found matching provided IDs"
-          }`
+        chalk.yellow(
+          "--review asks about one track at a time; ignoring --parallel."
         )
       );
-      if (notFoundIds.length > 0) {
-        console.log(
-          chalk.yellow(
-            `Warning: Could not find playlist IDs: ${notFoundIds.join(", ")}`
-          )
-        );
-      }
-    } else {
-      const playlistChoices = allSpotifyPlaylists.map((p) => ({
-        name: `${p.name} (${p.tracks.total} tracks, ID: ${p.id})`,
-        value: p.id,
-      }));
-      const answers = await inquirer.prompt([
-        {
-          type: "checkbox",
-          name: "selectedIds",
-          message: "Select Spotify playlists to transfer:",
-          choices: playlistChoices,
-          validate: (input) =>
-            input.length > 0 ? true : "Please select at least one playlist.",
-          pageSize: 15,
-        },
-      ]);
-      playlistsToTransfer = allSpotifyPlaylists.filter((p) =>
-        answers.selectedIds.includes(p.id)
-      );
+      options.parallel = 1;
+    }
+    const { source, destination, clients } = await createProviders(options);
+    console.log(
+      chalk.blue(
+        `--- ${source.name} to ${destination.name} Playlist Transfer ---`
+      )
+    );
+    if (clients.spotifyClient) {
+      await loginSpotifyUser(clients.spotifyClient);
+    }
+
+    const allPlaylists = await fetchPlaylists(source);
+
+    if (allPlaylists.length === 0) {
+      console.log(chalk.yellow(`No ${source.name} playlists found.`));
+      return;
     }
 
+    const playlistsToTransfer = await selectPlaylists(
+      allPlaylists,
+      options,
+      `Select ${source.name} playlists to transfer:`
+    );
+
     if (playlistsToTransfer.length === 0) {
       console.log(chalk.yellow("No playlists selected for transfer. Exiting."));
       return;
     }
 
+    if (options.target && playlistsToTransfer.length > 1) {
+      const message = `--target needs exactly one playlist, but ${playlistsToTransfer.length} were selected.`;
+      console.error(chalk.red(message));
+      exitWithError(message);
+    }
+
+    const writesToYouTube = options.to === "youtube";
+
+    if (options.dryRun) {
+      console.log(
+        chalk.blue(
+          `\nStarting dry run for ${playlistsToTransfer.length} playlist(s). Nothing will be written to ${destination.name}.`
+        )
+      );
+      if (writesToYouTube) {
+        warnIfOverQuota(playlistsToTransfer, TRACK_SEARCH_COST, 0);
+      }
+      const searchLimiter = createLimiter(options.concurrency);
+      const previews: PlaylistMatchReport[] = [];
+      const finishedReports = () => previews.filter(Boolean);
+      try {
+        await mapConcurrently(
+          playlistsToTransfer,
+          options.parallel,
+          async (playlist, i) => {
+            const report = await previewPlaylist(
+              source,
+              destination,
+              playlist,
+              searchLimiter
+            );
+            printMatchReport(report);
+            previews[i] = report;
+          }
+        );
+      } catch (error) {
+        const reports = finishedReports();
+        if (reports.length > 0) {
+          outputResults(options, { playlists: reports });
+        }
+        exitOnQuotaExceeded(error);
+        throw error;
+      }
+      outputResults(options, { playlists: finishedReports() });
+      console.log(chalk.green("\n--- Dry run complete! ---"));
+      return;
+    }
+
     console.log(
       chalk.blue(
         `\nStarting transfer for ${playlistsToTransfer.length} playlist(s)...`
       )
     );
+    if (writesToYouTube) {
+      warnIfOverQuota(
+        playlistsToTransfer,
+        TRACK_TRANSFER_COST,
+        PLAYLIST_CREATE_COST
+      );
+    }
+
+    // Kept in selection order; playlists not started are left out.
+    const transfers: PlaylistTransferResult[] = [];
+    const finishedResults = () => transfers.filter(Boolean);
+    const searchLimiter = createLimiter(options.concurrency);
+    const playlistDefaults = getPlaylistDefaults();
+    let quotaExhausted = false;
+    try {
+      await mapConcurrently(
+        playlistsToTransfer,
+        options.parallel,
+        async (playlist, i) => {
+          if (quotaExhausted) return;
+          const result = await transferPlaylist(source, destination, playlist, {
+            resume: options.resume,
+            review: options.review,
+            searchLimiter,
+            privacy: options.privacy ?? playlistDefaults.privacy,
+            titleTemplate: options.title ?? playlistDefaults.titleTemplate,
+            descriptionTemplate:
+              options.description ?? playlistDefaults.descriptionTemplate,
+            target: options.target,
+            onExisting: options.onExisting,
+          });
+          transfers[i] = result;
+          if (result.status === "interrupted") quotaExhausted = true;
+        }
+      );
+    } catch (error) {
+      const results = finishedResults();
+      if (results.length > 0) {
+        outputResults(options, { playlists: results });
+      }
+      exitOnQuotaExceeded(error);
+      throw error;
+    }
+    const results = finishedResults();
+    outputResults(options, { playlists: results });
 
-    for (const playlist of playlistsToTransfer) {
-      await transferPlaylist(spotifyClient, youtubeClient, playlist);
+    const interrupted = results.find((r) => r.status === "interrupted");
+    if (interrupted) {
+      exitForQuota(interrupted.error ?? "YouTube quota exhausted.");
+    }
+    if (results.some((r) => r.status === "partial" || r.status === "failed")) {
+      console.log(
+        chalk.yellow(
+          "\n--- Transfers finished, but some tracks or playlists could not be transferred. ---"
+        )
+      );
+      process.exitCode = EXIT_PARTIAL_FAILURE;
+      return;
     }
 
     console.log(chalk.green("\n--- All selected transfers complete! ---"));
   });
 
-if (
-  process.argv.length <= 2 ||
-  (process.argv.length > 2 &&
-    !program.commands.some((c) => c.name() === process.argv[2]))
-) {
-  const args = [...process.argv];
-  if (args.length <= 2) {
-    args.push("--help");
-  }
-  program.parse(args);
-} else {
-  program.parse(process.argv);
+/**
+ * Connects to both services and lets the user pick among the playlists that
+ * earlier transfers recorded. Returns null when there is nothing to pick.
+ */
+async function selectTransferredPlaylists(
+  options: {
+    from: string;
+    to: string;
+    all?: boolean;
+    playlist?: string[];
+    prefer?: MatchPreference;
+  },
+  action: string,
+  message: string
+): Promise<{
+  source: SourceProvider;
+  destination: DestinationProvider;
+  playlists: Playlist[];
+} | null> {
+  const transferredIds = new Set(
+    listPlaylistJournals().map((entry) => entry.sourcePlaylistId)
+  );
+  if (transferredIds.size === 0) {
+    console.log(
+      chalk.yellow(
+        'No transferred playlists recorded yet. Run "transfer" first.'
+      )
+    );
+    return null;
+  }
+
+  const { source, destination, clients } = await createProviders(options);
+  console.log(
+    chalk.blue(
+      `--- ${source.name} to ${destination.name} Playlist ${action} ---`
+    )
+  );
+  if (clients.spotifyClient) {
+    await loginSpotifyUser(clients.spotifyClient);
+  }
+
+  const transferredPlaylists = (await fetchPlaylists(source)).filter((p) =>
+    transferredIds.has(p.id)
+  );
+
+  if (transferredPlaylists.length === 0) {
+    console.log(
+      chalk.yellow(
+        `None of the previously transferred playlists are accessible on ${source.name}.`
+      )
+    );
+    return null;
+  }
+
+  const playlists = await selectPlaylists(
+    transferredPlaylists,
+    options,
+    message
+  );
+
+  if (playlists.length === 0) {
+    console.log(chalk.yellow("No playlists selected. Exiting."));
+    return null;
+  }
+  return { source, destination, playlists };
+}
+
+program
+  .command("sync")
+  .description("Add new tracks to playlists created by earlier transfers.")
+  .option("--all", "Sync all previously transferred playlists")
+  .option(
+    "-p, --playlist <ids...>",
+    "Specify one or more playlist IDs (of the source service) to sync"
+  )
+  .option(
+    "--from <service>",
+    "Service the playlists were read from",
+    "spotify"
+  )
+  .option(
+    "--to <service>",
+    "Service the playlists were created on",
+    "youtube"
+  )
+  .option(
+    "--prune",
+    "Also remove items whose tracks were deleted from the source playlist"
+  )
+  .option(
+    "--concurrency <n>",
+    "Search up to n tracks at the same time",
+    parsePositiveInt,
+    DEFAULT_SEARCH_CONCURRENCY
+  )
+  .option("--prefer <kind>", PREFER_DESCRIPTION, parsePreference)
+  .action(async (options) => {
+    const selection = await selectTransferredPlaylists(
+      options,
+      "Sync",
+      "Select playlists to sync:"
+    );
+    if (!selection) return;
+    const { source, destination, playlists: playlistsToSync } = selection;
+
+    const searchLimiter = createLimiter(options.concurrency);
+    try {
+      for (const playlist of playlistsToSync) {
+        await syncPlaylist(source, destination, playlist, {
+          prune: options.prune,
+          searchLimiter,
+        });
+      }
+    } catch (error) {
+      exitOnQuotaExceeded(error);
+      throw error;
+    }
+
+    console.log(chalk.green("\n--- All selected syncs complete! ---"));
+  });
+
+program
+  .command("reorder")
+  .description(
+    "Put the items of transferred playlists back into the source playlist's order."
+  )
+  .option("--all", "Reorder all previously transferred playlists")
+  .option(
+    "-p, --playlist <ids...>",
+    "Specify one or more playlist IDs (of the source service) to reorder"
+  )
+  .option(
+    "--from <service>",
+    "Service the playlists were read from",
+    "spotify"
+  )
+  .option(
+    "--to <service>",
+    "Service the playlists were created on",
+    "youtube"
+  )
+  .action(async (options) => {
+    const selection = await selectTransferredPlaylists(
+      options,
+      "Reorder",
+      "Select playlists to reorder:"
+    );
+    if (!selection) return;
+    const { source, destination, playlists } = selection;
+
+    try {
+      for (const playlist of playlists) {
+        await reorderPlaylist(source, destination, playlist);
+      }
+    } catch (error) {
+      exitOnQuotaExceeded(error);
+      throw error;
+    }
+
+    console.log(chalk.green("\n--- All selected playlists reordered! ---"));
+  });
+
+program
+  .command("export")
+  .description("Save Spotify playlists to JSON, CSV, M3U or XSPF files.")
+  .option("--all", "Export all playlists (not library collections)")
+  .option(
+    "-p, --playlist <ids...>",
+    "Specify one or more Spotify playlist IDs (or library pseudo-IDs) to export"
+  )
+  .option(
+    "-f, --format <format>",
+    `File format: ${EXPORT_FORMATS.join(", ")}`,
+    "json"
+  )
+  .option("-o, --output <dir>", "Directory to write the files to", ".")
+  .option(
+    "--with-youtube-matches",
+    "Search every track on YouTube and include the matched video ID and URL"
+  )
+  .option("--prefer <kind>", PREFER_DESCRIPTION, parsePreference)
+  .action(async (options) => {
+    if (!EXPORT_FORMATS.includes(options.format)) {
+      console.error(
+        chalk.red(
+          `Unsupported format "${options.format}". Use one of: ${EXPORT_FORMATS.join(
+            ", "
+          )}.`
+        )
+      );
+      process.exit(1);
+    }
+
+    const clients = await connectClients(
+      options.withYoutubeMatches ? ["spotify", "youtube"] : ["spotify"]
+    );
+    const source = createProvider("spotify", clients);
+    const matcher = clients.youtubeClient
+      ? createProvider("youtube", clients, options.prefer)
+      : undefined;
+    console.log(chalk.blue("--- Spotify Playlist Export ---"));
+    await loginSpotifyUser(clients.spotifyClient!);
+
+    const allPlaylists = await fetchPlaylists(source);
+    if (allPlaylists.length === 0) {
+      console.log(chalk.yellow("No Spotify playlists found."));
+      return;
+    }
+
+    const playlistsToExport = await selectPlaylists(
+      allPlaylists,
+      options,
+      "Select Spotify playlists to export:"
+    );
+    if (playlistsToExport.length === 0) {
+      console.log(chalk.yellow("No playlists selected for export. Exiting."));
+      return;
+    }
+
+    if (matcher) {
+      warnIfOverQuota(playlistsToExport, TRACK_SEARCH_COST, 0);
+    }
+    mkdirSync(options.output, { recursive: true });
+    const usedFileNames = new Set<string>();
+
+    try {
+      for (const playlist of playlistsToExport) {
+        console.log(chalk.magenta(`\nExporting "${playlist.name}"...`));
+        const tracks: ExportedTrack[] = await source.getTracks(playlist.id);
+        if (matcher) {
+          for (const track of tracks) {
+            track.youtube = (await matcher.search(track))?.best;
+          }
+        }
+
+        let fileName = playlistFileName(playlist, options.format);
+        if (usedFileNames.has(fileName)) {
+          fileName = playlistFileName(
+            { ...playlist, name: `${playlist.name} (${playlist.id})` },
+            options.format
+          );
+        }
+        usedFileNames.add(fileName);
+
+        const path = join(options.output, fileName);
+        writeFileSync(
+          path,
+          serializePlaylist(options.format, playlist, tracks) + "\n",
+          "utf8"
+        );
+        console.log(chalk.gray(`  ${tracks.length} tracks written to ${path}`));
+      }
+    } catch (error) {
+      exitOnQuotaExceeded(error);
+      throw error;
+    }
+
+    console.log(chalk.green("\n--- All selected exports complete! ---"));
+  });
+
+const args = [...process.argv];
+if (args.length <= 2) {
+  args.push("--help");
+}
+
+try {
+  await program.parseAsync(args);
+} catch (error: any) {
+  // Fatal errors (exit code 1); --json callers still get a JSON document.
+  const message = error.response?.data?.error?.message ?? error.message;
+  console.error(chalk.red("\nError:"), message);
+  exitWithError(message);
 }
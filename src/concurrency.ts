@@ -0,0 +1,62 @@
+/** Runs a task once fewer than the limiter's maximum are running. */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * At most `limit` tasks run at the same time; the others wait and start in
+ * the order they were scheduled.
+ */
+export function createLimiter(limit: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      // The finishing task hands its slot over, so active stays the same.
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Calls fn for every item, at most `limit` at a time, and returns the results
+ * in item order. After a failure no new items are started; the ones already
+ * running are waited for before the first error is rethrown.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !failure) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+
+  if (failure) throw failure.error;
+  return results;
+}
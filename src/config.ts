@@ -1,5 +1,23 @@
 import * as Conf from "conf";
 import { Credentials } from "google-auth-library";
+import { dirname, join } from "node:path";
+import { rmSync } from "node:fs";
+import {
+  SecretStore,
+  SecretName,
+  SecretBackend,
+  SECRET_NAMES,
+  createEncryptedFileStore,
+  createEnvSecretStore,
+  secretsFileExists,
+  removeSecretsFile,
+} from "./secrets.js";
+import { PlaylistPrivacy, PLAYLIST_PRIVACY_VALUES } from "./provider.js";
+import {
+  DEFAULT_TITLE_TEMPLATE,
+  DEFAULT_DESCRIPTION_TEMPLATE,
+} from "./template.js";
+import { MatchPreference, MATCH_PREFERENCES } from "./matcher.js";
 
 export interface SpotifyToken {
   access_token: string;
@@ -10,9 +28,23 @@ export interface SpotifyToken {
   expires_at?: number;
 }
 
-interface ConfigSchema {
+export const DEFAULT_SPOTIFY_SCOPES = [
+  "playlist-read-private",
+  "playlist-read-collaborative",
+  "user-read-private",
+  "playlist-modify-private",
+  "playlist-modify-public",
+  "user-library-read",
+  "user-follow-read",
+].join(" ");
+
+export interface ConfigSchema {
   spotifyClientId?: string;
+  // spotifyClientSecret, googleClientSecret and both tokens now live in the
+  // secret store; they are only read here to migrate older config files.
   spotifyClientSecret?: string;
+  /** Log in with Authorization Code + PKCE, which needs no client secret. */
+  spotifyUsePkce?: boolean;
   spotifyRedirectUri?: string;
   spotifyScopes?: string;
   spotifyToken?: SpotifyToken;
@@ -22,19 +54,27 @@ interface ConfigSchema {
   googleScopes?: string[];
   googleToken?: Credentials;
   callbackPort?: number;
+  youtubeDailyQuota?: number;
+  secretBackend?: SecretBackend;
+  /** Defaults for playlists created by transfers; see template.ts. */
+  playlistPrivacy?: PlaylistPrivacy;
+  playlistTitleTemplate?: string;
+  playlistDescriptionTemplate?: string;
+  /** Kind of YouTube upload to favour when matching tracks. */
+  matchPreference?: MatchPreference;
 }
 
 const schema: Conf.Schema<ConfigSchema> = {
   spotifyClientId: { type: "string" },
   spotifyClientSecret: { type: "string" },
+  spotifyUsePkce: { type: "boolean", default: false },
   spotifyRedirectUri: {
     type: "string",
     default: "http://localhost:8888/spotify-callback",
   },
   spotifyScopes: {
     type: "string",
-    default:
-      "playlist-read-private playlist-read-collaborative user-read-private",
+    default: DEFAULT_SPOTIFY_SCOPES,
   },
   spotifyToken: {
     type: "object",
@@ -69,28 +109,175 @@ const schema: Conf.Schema<ConfigSchema> = {
     },
   },
   callbackPort: { type: "number", default: 8888 },
+  youtubeDailyQuota: { type: "number", default: 10000 },
+  secretBackend: { type: "string", enum: ["file", "env"], default: "file" },
+  playlistPrivacy: {
+    type: "string",
+    enum: PLAYLIST_PRIVACY_VALUES,
+    default: "private",
+  },
+  playlistTitleTemplate: { type: "string", default: DEFAULT_TITLE_TEMPLATE },
+  playlistDescriptionTemplate: {
+    type: "string",
+    default: DEFAULT_DESCRIPTION_TEMPLATE,
+  },
+  matchPreference: { type: "string", enum: MATCH_PREFERENCES, default: "any" },
 };
 
-const config = new Conf.default<ConfigSchema>({
+export const DEFAULT_PROFILE = "default";
+
+interface ProfilesSchema {
+  active: string;
+  names: string[];
+}
+
+const profiles = new Conf.default<ProfilesSchema>({
   projectName: "spotify-youtube-playlist-porter",
-  schema: schema,
+  configName: "profiles",
+  defaults: { active: DEFAULT_PROFILE, names: [DEFAULT_PROFILE] },
 });
 
-export default config;
+/** The default profile keeps using the config file of older versions. */
+function openProfileConfig(profile: string): Conf.default<ConfigSchema> {
+  return new Conf.default<ConfigSchema>({
+    projectName: "spotify-youtube-playlist-porter",
+    configName: profile === DEFAULT_PROFILE ? "config" : `profile-${profile}`,
+    schema: schema,
+  });
+}
+
+export function listProfiles(): string[] {
+  return profiles.get("names");
+}
+
+/** The profile used when no --profile is given. */
+export function getActiveProfile(): string {
+  const active = profiles.get("active");
+  return listProfiles().includes(active) ? active : DEFAULT_PROFILE;
+}
+
+let currentProfile = getActiveProfile();
+let config = openProfileConfig(currentProfile);
+
+// Exported as a live binding: importers see the switch made by useProfile.
+export { config as default };
+
+/** The profile this run uses. */
+export function getCurrentProfile(): string {
+  return currentProfile;
+}
+
+function assertProfileExists(name: string): void {
+  if (!listProfiles().includes(name)) {
+    throw new Error(
+      `Profile "${name}" does not exist. Create it with "profile add ${name}".`
+    );
+  }
+}
+
+// Per-profile stores kept in their own files next to the config file.
+const PROFILE_STORES = ["journal", "quota"];
+// Each store is only opened with its own schema, hence the casts below.
+const profileStores = new Map<string, Conf.default<Record<string, unknown>>>();
+
+/**
+ * Opens a store (e.g. the transfer journal) of the current profile; the
+ * default profile keeps the file name older versions used.
+ */
+export function openProfileStore<T extends Record<string, any>>(
+  name: string,
+  defaults?: T
+): Conf.default<T> {
+  const configName =
+    currentProfile === DEFAULT_PROFILE ? name : `${name}-${currentProfile}`;
+  let store = profileStores.get(configName) as Conf.default<T> | undefined;
+  if (!store) {
+    store = new Conf.default<T>({
+      projectName: "spotify-youtube-playlist-porter",
+      configName,
+      defaults,
+    });
+    profileStores.set(
+      configName,
+      store as unknown as Conf.default<Record<string, unknown>>
+    );
+  }
+  return store;
+}
+
+/** Switches this run to another profile's settings and secrets. */
+export function useProfile(name: string): void {
+  assertProfileExists(name);
+  currentProfile = name;
+  config = openProfileConfig(name);
+  secretStore = undefined;
+}
+
+export function setActiveProfile(name: string): void {
+  assertProfileExists(name);
+  profiles.set("active", name);
+}
+
+export function addProfile(name: string): void {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(
+      "Profile names may only contain letters, digits, '-' and '_'."
+    );
+  }
+  if (listProfiles().includes(name)) {
+    throw new Error(`Profile "${name}" already exists.`);
+  }
+  profiles.set("names", [...listProfiles(), name]);
+}
+
+/** Deletes a profile with its settings, secrets, tokens and stores. */
+export function removeProfile(name: string): void {
+  assertProfileExists(name);
+  if (name === DEFAULT_PROFILE) {
+    throw new Error("The default profile cannot be removed.");
+  }
+  const configPath = openProfileConfig(name).path;
+  rmSync(configPath, { force: true });
+  for (const store of PROFILE_STORES) {
+    rmSync(join(dirname(configPath), `${store}-${name}.json`), {
+      force: true,
+    });
+  }
+  removeSecretsFile(getSecretsPath(name));
+  profiles.set(
+    "names",
+    listProfiles().filter((profile) => profile !== name)
+  );
+  if (profiles.get("active") === name) {
+    profiles.set("active", DEFAULT_PROFILE);
+  }
+}
+
+/**
+ * Scopes stored by older versions are missing ones newer features need, so
+ * the defaults are always requested on top of whatever is configured.
+ */
+function withDefaultScopes(scopes: string | undefined): string {
+  const merged = new Set(
+    `${scopes ?? ""} ${DEFAULT_SPOTIFY_SCOPES}`.split(/\s+/).filter(Boolean)
+  );
+  return [...merged].join(" ");
+}
 
 export function getSpotifyCredentials() {
   return {
     clientId: config.get("spotifyClientId"),
-    clientSecret: config.get("spotifyClientSecret"),
+    clientSecret: getSecret("spotifyClientSecret"),
+    usePkce: config.get("spotifyUsePkce", false),
     redirectUri: config.get("spotifyRedirectUri"),
-    scopes: config.get("spotifyScopes"),
+    scopes: withDefaultScopes(config.get("spotifyScopes")),
   };
 }
 
 export function getGoogleCredentials() {
   return {
     clientId: config.get("googleClientId"),
-    clientSecret: config.get("googleClientSecret"),
+    clientSecret: getSecret("googleClientSecret"),
     redirectUri: config.get("googleRedirectUri"),
     scopes: config.get("googleScopes"),
   };
@@ -100,43 +287,140 @@ export function getCallbackPort(): number {
   return config.get("callbackPort", 8888);
 }
 
+export function getPlaylistDefaults() {
+  return {
+    privacy: config.get("playlistPrivacy", "private"),
+    titleTemplate: config.get("playlistTitleTemplate", DEFAULT_TITLE_TEMPLATE),
+    descriptionTemplate: config.get(
+      "playlistDescriptionTemplate",
+      DEFAULT_DESCRIPTION_TEMPLATE
+    ),
+  };
+}
+
+export function getMatchPreference(): MatchPreference {
+  return config.get("matchPreference", "any");
+}
+
+let secretStore: SecretStore | undefined;
+
+export function getSecretsPath(profile = currentProfile): string {
+  return join(
+    dirname(config.path),
+    profile === DEFAULT_PROFILE ? "secrets.enc" : `secrets-${profile}.enc`
+  );
+}
+
+export function getSecretBackend(): SecretBackend {
+  const fromEnv = process.env.SYP_SECRET_BACKEND;
+  if (fromEnv === "file" || fromEnv === "env") return fromEnv;
+  return config.get("secretBackend", "file");
+}
+
+/**
+ * Opens the configured secret store. The file backend is unlocked with
+ * SYP_SECRET_KEY or, when that is not set, with promptPassphrase (isNew is
+ * true when no secrets file exists yet).
+ */
+export async function openSecretStore(
+  promptPassphrase: (isNew: boolean) => Promise<string>
+): Promise<SecretStore> {
+  if (secretStore) return secretStore;
+  if (getSecretBackend() === "env") {
+    secretStore = createEnvSecretStore();
+  } else {
+    const path = getSecretsPath();
+    const passphrase =
+      process.env.SYP_SECRET_KEY ||
+      (await promptPassphrase(!secretsFileExists(path)));
+    secretStore = createEncryptedFileStore(path, passphrase);
+  }
+  return secretStore;
+}
+
+function secrets(): SecretStore {
+  if (!secretStore) {
+    throw new Error("The secret store has not been unlocked.");
+  }
+  return secretStore;
+}
+
+export function getSecret(name: SecretName): string | undefined {
+  return secrets().get(name);
+}
+
+export function setSecret(name: SecretName, value: string): void {
+  secrets().set(name, value);
+}
+
+export function deleteSecret(name: SecretName): void {
+  secrets().delete(name);
+}
+
+/**
+ * Older versions kept client secrets and tokens in the plain config file.
+ * Moves them into the (persistent) secret store and returns their names.
+ */
+export function migrateSecrets(): SecretName[] {
+  const store = secrets();
+  if (!store.persistent) return [];
+  const moved: SecretName[] = [];
+  for (const name of SECRET_NAMES) {
+    const value = config.get(name);
+    if (value === undefined) continue;
+    if (store.get(name) === undefined) {
+      store.set(name, typeof value === "string" ? value : JSON.stringify(value));
+    }
+    config.delete(name);
+    moved.push(name);
+  }
+  return moved;
+}
+
+function loadJsonSecret<T>(name: SecretName): T | undefined {
+  const value = getSecret(name);
+  return value ? JSON.parse(value) : undefined;
+}
+
 export function saveSpotifyToken(token: SpotifyToken): void {
-  config.set("spotifyToken", token);
+  setSecret("spotifyToken", JSON.stringify(token));
   console.log("Spotify token saved.");
 }
 
 export function loadSpotifyToken(): SpotifyToken | undefined {
-  return config.get("spotifyToken");
+  return loadJsonSecret("spotifyToken");
 }
 
 export function deleteSpotifyToken(): void {
-  config.delete("spotifyToken");
+  deleteSecret("spotifyToken");
   console.log("Spotify token deleted.");
 }
 
 export function saveGoogleToken(token: Credentials): void {
-  config.set("googleToken", token);
+  setSecret("googleToken", JSON.stringify(token));
   console.log("Google token saved.");
 }
 
 export function loadGoogleToken(): Credentials | undefined {
-  return config.get("googleToken");
+  return loadJsonSecret("googleToken");
 }
 
 export function deleteGoogleToken(): void {
-  config.delete("googleToken");
+  deleteSecret("googleToken");
   console.log("Google token deleted.");
 }
 
 export function clearConfig(): void {
   const configPath = config.path;
   config.clear();
-  console.log("Configuration and tokens cleared.");
+  removeSecretsFile(getSecretsPath());
+  secretStore = undefined;
+  console.log("Configuration, secrets and tokens cleared.");
   console.log(`Config file location was: ${configPath}`);
 }
 
 export function clearTokens(): void {
-  config.delete("spotifyToken");
-  config.delete("googleToken");
+  deleteSecret("spotifyToken");
+  deleteSecret("googleToken");
   console.log("Authentication tokens cleared.");
 }
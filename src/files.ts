@@ -0,0 +1,500 @@
+import { readFileSync } from "node:fs";
+import { basename, extname, resolve } from "node:path";
+import { createHash } from "node:crypto";
+import { parseVideoTitle } from "./matcher.js";
+import {
+  Track,
+  Playlist,
+  MatchedItem,
+  SourceProvider,
+} from "./provider.js";
+
+interface ParsedPlaylist {
+  name: string;
+  description: string;
+  tracks: Track[];
+}
+
+// Spotify privacy export: YourLibrary.json
+interface SpotifyLibraryExport {
+  tracks?: { artist: string; album: string; track: string; uri?: string }[];
+}
+
+// Spotify privacy export: Playlist1.json, Playlist2.json, ...
+interface SpotifyPlaylistExport {
+  playlists?: {
+    name: string;
+    description?: string | null;
+    items: {
+      track: {
+        trackName: string;
+        artistName: string;
+        albumName: string;
+        trackUri?: string;
+      } | null;
+    }[];
+  }[];
+}
+
+function spotifyTrackIdFromUri(uri: string | undefined): string | null {
+  const match = /^spotify:track:([A-Za-z0-9]+)$/.exec(uri?.trim() ?? "");
+  return match ? match[1] : null;
+}
+
+// Files written by the export command.
+interface PlaylistExport {
+  name?: string;
+  description?: string;
+  tracks?: unknown[];
+}
+
+function parseJson(content: string, fileName: string): ParsedPlaylist[] {
+  const data: SpotifyLibraryExport & SpotifyPlaylistExport & PlaylistExport =
+    JSON.parse(content);
+  if (typeof data.name === "string") {
+    if (!Array.isArray(data.tracks)) {
+      throw new Error(
+        `${fileName} does not look like an exported playlist (no "tracks" list).`
+      );
+    }
+    return [
+      {
+        name: data.name,
+        description: data.description ?? "",
+        tracks: (data.tracks as ExportedTrack[]).map(
+          ({ id, name, artists, album, durationMs }) => ({
+            id,
+            name,
+            artists,
+            album,
+            durationMs,
+          })
+        ),
+      },
+    ];
+  }
+  const playlists: ParsedPlaylist[] = [];
+
+  for (const playlist of data.playlists ?? []) {
+    playlists.push({
+      name: playlist.name,
+      description: playlist.description ?? "",
+      tracks: playlist.items.flatMap((item) =>
+        item.track
+          ? [
+              {
+                id: spotifyTrackIdFromUri(item.track.trackUri),
+                name: item.track.trackName,
+                artists: [item.track.artistName],
+                album: item.track.albumName,
+              },
+            ]
+          : []
+      ),
+    });
+  }
+
+  if (data.tracks && data.tracks.length > 0) {
+    playlists.push({
+      name: "Liked Songs",
+      description: `Liked Songs from the Spotify data export (${fileName})`,
+      tracks: data.tracks.map((track) => ({
+        id: spotifyTrackIdFromUri(track.uri),
+        name: track.track,
+        artists: [track.artist],
+        album: track.album,
+      })),
+    });
+  }
+
+  if (playlists.length === 0) {
+    throw new Error(
+      `${fileName} does not look like a Spotify data export (no "playlists" or "tracks").`
+    );
+  }
+  return playlists;
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+const CSV_COLUMNS = {
+  uri: ["track uri", "spotify uri", "uri"],
+  name: ["track name", "track", "title", "name"],
+  artists: ["artist name(s)", "artist name", "artists", "artist"],
+  album: ["album name", "album"],
+  durationMs: ["track duration (ms)", "duration (ms)", "duration_ms"],
+};
+
+function parseCsv(content: string, fileName: string): ParsedPlaylist[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error(`${fileName} is empty.`);
+  }
+  const normalizedHeader = header.map((h) => h.trim().toLowerCase());
+  const column = (aliases: string[]) =>
+    normalizedHeader.findIndex((h) => aliases.includes(h));
+  const columns = {
+    uri: column(CSV_COLUMNS.uri),
+    name: column(CSV_COLUMNS.name),
+    artists: column(CSV_COLUMNS.artists),
+    album: column(CSV_COLUMNS.album),
+    durationMs: column(CSV_COLUMNS.durationMs),
+  };
+  if (columns.name === -1 || columns.artists === -1) {
+    throw new Error(
+      `${fileName} needs a track name and an artist column (e.g. Exportify's "Track Name" and "Artist Name(s)").`
+    );
+  }
+
+  const tracks = rows.map((row) => {
+    const artistField = row[columns.artists] ?? "";
+    // Exportify separates multiple artists with commas, newer exports with ";".
+    const separator = artistField.includes(";") ? ";" : ",";
+    const durationMs = Number(row[columns.durationMs]);
+    return {
+      id: spotifyTrackIdFromUri(row[columns.uri]),
+      name: (row[columns.name] ?? "").trim(),
+      artists: artistField
+        .split(separator)
+        .map((artist) => artist.trim())
+        .filter(Boolean),
+      album: columns.album === -1 ? undefined : row[columns.album],
+      durationMs: durationMs > 0 ? durationMs : undefined,
+    };
+  });
+
+  return [
+    {
+      name: basename(fileName, extname(fileName)),
+      description: `Imported from ${fileName}`,
+      tracks: tracks.filter((track) => track.name),
+    },
+  ];
+}
+
+/**
+ * The file name of an M3U entry without its extension. Only URLs (such as
+ * file:// ones) are percent-encoded; plain paths may contain a literal "%".
+ */
+function m3uEntryName(entry: string): string {
+  const name = basename(entry.replace(/\\/g, "/"), extname(entry));
+  if (!/^[a-z][\w+.-]*:\/\//i.test(entry)) return name;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function parseM3u(content: string, fileName: string): ParsedPlaylist[] {
+  const tracks: Track[] = [];
+  let pending: { durationMs?: number; label: string } | null = null;
+  let name = basename(fileName, extname(fileName));
+
+  for (const rawLine of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice("#PLAYLIST:".length).trim() || name;
+    } else if (line.startsWith("#EXTINF:")) {
+      const info = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/.exec(line);
+      if (info) {
+        const seconds = Number(info[1]);
+        pending = {
+          durationMs: seconds > 0 ? seconds * 1000 : undefined,
+          label: info[2].trim(),
+        };
+      }
+    } else if (!line.startsWith("#")) {
+      const label = pending?.label || m3uEntryName(line);
+      tracks.push({
+        id: spotifyTrackIdFromUri(line),
+        ...parseVideoTitle(label, ""),
+        durationMs: pending?.durationMs,
+      });
+      pending = null;
+    }
+  }
+
+  return [{ name, description: `Imported from ${fileName}`, tracks }];
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function xmlElement(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(
+    xml
+  );
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function parseXspf(content: string, fileName: string): ParsedPlaylist[] {
+  const trackBlocks = content.match(/<track(?:\s[^>]*)?>[\s\S]*?<\/track>/g);
+  const tracks: Track[] = (trackBlocks ?? []).flatMap((block) => {
+    const title = xmlElement(block, "title");
+    if (!title) return [];
+    const creator = xmlElement(block, "creator");
+    const duration = Number(xmlElement(block, "duration"));
+    return [
+      {
+        id: spotifyTrackIdFromUri(
+          xmlElement(block, "identifier") ?? xmlElement(block, "location")
+        ),
+        name: title,
+        artists: creator ? [creator] : [],
+        album: xmlElement(block, "album"),
+        durationMs: duration > 0 ? duration : undefined,
+      },
+    ];
+  });
+  // Only look for the playlist's own <title> before the track list.
+  const playlistHeader = content.split(/<trackList[\s>]/)[0];
+
+  return [
+    {
+      name:
+        xmlElement(playlistHeader, "title") ??
+        basename(fileName, extname(fileName)),
+      description:
+        xmlElement(playlistHeader, "annotation") ??
+        `Imported from ${fileName}`,
+      tracks,
+    },
+  ];
+}
+
+export function parsePlaylistFile(path: string): ParsedPlaylist[] {
+  const fileName = basename(path);
+  const content = readFileSync(path, "utf8");
+  switch (extname(path).toLowerCase()) {
+    case ".json":
+      return parseJson(content, fileName);
+    case ".csv":
+      return parseCsv(content, fileName);
+    case ".m3u":
+    case ".m3u8":
+      return parseM3u(content, fileName);
+    case ".xspf":
+      return parseXspf(content, fileName);
+    default:
+      throw new Error(
+        `Unsupported file type "${extname(path)}". Use a Spotify export (.json), CSV, M3U/M3U8 or XSPF file.`
+      );
+  }
+}
+
+/**
+ * Playlist IDs must stay stable across runs (the transfer journal is keyed
+ * on them) and must not contain dots, so derive them from the file path.
+ */
+function filePlaylistId(path: string, index: number): string {
+  const hash = createHash("sha1").update(resolve(path)).digest("hex");
+  return `file-${hash.slice(0, 12)}-${index + 1}`;
+}
+
+export function createFileSourceProvider(path: string): SourceProvider {
+  const playlists = parsePlaylistFile(path).map((playlist, index) => ({
+    ...playlist,
+    id: filePlaylistId(path, index),
+  }));
+
+  return {
+    name: "File",
+
+    async listPlaylists(): Promise<Playlist[]> {
+      return playlists.map((p) => ({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        trackCount: p.tracks.length,
+      }));
+    },
+
+    async getTracks(playlistId: string): Promise<Track[]> {
+      return playlists.find((p) => p.id === playlistId)?.tracks ?? [];
+    },
+  };
+}
+
+export const EXPORT_FORMATS = ["json", "csv", "m3u", "xspf"];
+
+export interface ExportedTrack extends Track {
+  /** YouTube match, when the export was run with matching enabled. */
+  youtube?: MatchedItem;
+}
+
+function spotifyTrackUri(track: Track): string {
+  return track.id ? `spotify:track:${track.id}` : "";
+}
+
+function csvField(value: string | number | undefined): string {
+  return `"${String(value ?? "").replace(/"/g, '""')}"`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function serializeCsv(tracks: ExportedTrack[]): string {
+  const header = [
+    "Track URI",
+    "Track Name",
+    "Artist Name(s)",
+    "Album Name",
+    "Track Duration (ms)",
+    "YouTube Video ID",
+    "YouTube URL",
+  ];
+  const rows = tracks.map((track) => [
+    spotifyTrackUri(track),
+    track.name,
+    track.artists.join(";"),
+    track.album,
+    track.durationMs,
+    track.youtube?.id,
+    track.youtube?.url,
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n");
+}
+
+function serializeM3u(playlist: Playlist, tracks: ExportedTrack[]): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${playlist.name}`];
+  for (const track of tracks) {
+    const seconds = track.durationMs ? Math.round(track.durationMs / 1000) : -1;
+    lines.push(
+      `#EXTINF:${seconds},${track.artists.join(", ")} - ${track.name}`,
+      track.youtube?.url ?? (spotifyTrackUri(track) || track.name)
+    );
+  }
+  return lines.join("\n");
+}
+
+function serializeXspf(playlist: Playlist, tracks: ExportedTrack[]): string {
+  const element = (tag: string, value: string | number | undefined) =>
+    value === undefined || value === ""
+      ? []
+      : [`      <${tag}>${escapeXml(String(value))}</${tag}>`];
+  const trackElements = tracks.map((track) =>
+    [
+      "    <track>",
+      ...element("location", track.youtube?.url),
+      ...element("identifier", spotifyTrackUri(track)),
+      ...element("title", track.name),
+      ...element("creator", track.artists.join(", ")),
+      ...element("album", track.album),
+      ...element("duration", track.durationMs),
+      "    </track>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.name)}</title>`,
+    ...(playlist.description
+      ? [`  <annotation>${escapeXml(playlist.description)}</annotation>`]
+      : []),
+    "  <trackList>",
+    ...trackElements,
+    "  </trackList>",
+    "</playlist>",
+  ].join("\n");
+}
+
+/**
+ * Renders a playlist in one of the EXPORT_FORMATS. Every format can be read
+ * back with parsePlaylistFile.
+ */
+export function serializePlaylist(
+  format: string,
+  playlist: Playlist,
+  tracks: ExportedTrack[]
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          id: playlist.id,
+          name: playlist.name,
+          description: playlist.description,
+          exportedAt: new Date().toISOString(),
+          tracks,
+        },
+        null,
+        2
+      );
+    case "csv":
+      return serializeCsv(tracks);
+    case "m3u":
+      return serializeM3u(playlist, tracks);
+    case "xspf":
+      return serializeXspf(playlist, tracks);
+    default:
+      throw new Error(
+        `Unsupported export format "${format}". Use one of: ${EXPORT_FORMATS.join(
+          ", "
+        )}.`
+      );
+  }
+}
+
+/** File name for a playlist, without characters file systems reject. */
+export function playlistFileName(playlist: Playlist, format: string): string {
+  const safeName =
+    playlist.name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").trim() ||
+    playlist.id;
+  return `${safeName}.${format}`;
+}
@@ -0,0 +1,148 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  CreateAxiosDefaults,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Retry-After values above this are treated as a permanent failure. */
+  maxRetryAfterMs?: number;
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+// YouTube reports short-term throttling as 403 with one of these reasons.
+const RETRYABLE_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+]);
+// A dropped connection may hit after the server acted on the request, so only
+// requests that are safe to repeat are retried then (not POST inserts).
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"]);
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+]);
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  maxRetryAfterMs: 2 * 60 * 1000,
+};
+
+/** Error body of Google APIs such as YouTube; Spotify only sets message. */
+export interface ApiErrorBody {
+  error?: { message?: string; errors?: { reason?: string }[] };
+}
+
+export type ApiError = AxiosError<ApiErrorBody>;
+
+/** The reasons a Google API gives for rejecting a request with 403. */
+export function forbiddenReasons(error: ApiError): string[] {
+  if (error.response?.status !== 403) return [];
+  return (error.response.data?.error?.errors ?? []).flatMap((e) =>
+    e.reason ? [e.reason] : []
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Transient failures (throttling, gateway errors, dropped connections) are
+ * worth retrying; everything else (bad request, auth, not found, quota) will
+ * fail the same way again.
+ */
+export function isRetryableError(error: ApiError): boolean {
+  if (!error.response) {
+    return (
+      error.code !== undefined &&
+      RETRYABLE_NETWORK_CODES.has(error.code) &&
+      IDEMPOTENT_METHODS.has(error.config?.method?.toLowerCase() ?? "get")
+    );
+  }
+  if (RETRYABLE_STATUSES.has(error.response.status)) {
+    return true;
+  }
+  return forbiddenReasons(error).some((reason) =>
+    RETRYABLE_REASONS.has(reason)
+  );
+}
+
+function parseRetryAfter(error: AxiosError): number | undefined {
+  const header = error.response?.headers?.["retry-after"];
+  if (header === undefined || header === null) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
+
+export function withRetry(
+  client: AxiosInstance,
+  retryOptions: RetryOptions = {}
+): AxiosInstance {
+  const options = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+
+  client.interceptors.response.use(undefined, async (error: ApiError) => {
+    const requestConfig = error.config as RetryableRequestConfig | undefined;
+    if (!requestConfig || !isRetryableError(error)) {
+      return Promise.reject(error);
+    }
+
+    const attempt = (requestConfig.retryCount ?? 0) + 1;
+    if (attempt > options.maxRetries) {
+      return Promise.reject(error);
+    }
+
+    const retryAfter = parseRetryAfter(error);
+    if (retryAfter !== undefined && retryAfter > options.maxRetryAfterMs) {
+      console.warn(
+        `  Server asked to wait ${Math.round(
+          retryAfter / 1000
+        )}s before retrying. Giving up on this request.`
+      );
+      return Promise.reject(error);
+    }
+
+    const delay = retryAfter ?? backoffDelay(attempt, options);
+    console.warn(
+      `  Request failed (${
+        error.response?.status ?? error.code
+      }), retrying in ${delay}ms (attempt ${attempt}/${options.maxRetries})...`
+    );
+    await sleep(delay);
+
+    requestConfig.retryCount = attempt;
+    return client.request(requestConfig);
+  });
+
+  return client;
+}
+
+export function createHttpClient(
+  defaults: CreateAxiosDefaults,
+  retryOptions: RetryOptions = {}
+): AxiosInstance {
+  return withRetry(axios.create(defaults), retryOptions);
+}
@@ -0,0 +1,160 @@
+import { createHash } from "node:crypto";
+import { openProfileStore } from "./config.js";
+import { Track } from "./provider.js";
+
+export type TrackOutcome = "added" | "not_found" | "failed";
+
+export interface TrackJournalEntry {
+  status: TrackOutcome;
+  itemId?: string;
+  score?: number;
+  updatedAt: number;
+}
+
+export interface PlaylistJournal {
+  sourcePlaylistId: string;
+  source: string;
+  destination: string;
+  name: string;
+  destinationPlaylistId: string;
+  startedAt: number;
+  updatedAt: number;
+  completed: boolean;
+  tracks: Record<string, TrackJournalEntry>;
+}
+
+interface JournalSchema {
+  playlists: Record<string, PlaylistJournal>;
+}
+
+// Lives next to the main config file (same project directory, separate file)
+// so clearing credentials does not wipe transfer progress and vice versa.
+// Each profile has its own, so transfers never resume into another account.
+function journal() {
+  return openProfileStore<JournalSchema>("journal", { playlists: {} });
+}
+
+export function getJournalPath(): string {
+  return journal().path;
+}
+
+/**
+ * Journal keys of a playlist's tracks, in playlist order. Tracks without an
+ * ID (e.g. Spotify local files) are keyed on their name, artists and length,
+ * numbered when the playlist has the same one more than once, so their keys
+ * survive tracks being added or removed around them.
+ */
+export function journalTrackKeys(tracks: Track[]): string[] {
+  const occurrences = new Map<string, number>();
+  return tracks.map((track) => {
+    if (track.id) return track.id;
+    // Hashed, since keys are used in dot-separated config paths.
+    const hash = createHash("sha256")
+      .update(
+        JSON.stringify([track.name, track.artists, track.durationMs ?? null])
+      )
+      .digest("hex")
+      .slice(0, 16);
+    const count = (occurrences.get(hash) ?? 0) + 1;
+    occurrences.set(hash, count);
+    return count === 1 ? `local:${hash}` : `local:${hash}-${count}`;
+  });
+}
+
+/**
+ * Older versions keyed tracks without an ID on their position
+ * ("local-<index>"). Moves those entries to the current keys, assuming the
+ * playlist has not changed since, and returns the updated journal.
+ */
+export function migrateLegacyTrackKeys(
+  entry: PlaylistJournal,
+  tracks: Track[]
+): PlaylistJournal {
+  const keys = journalTrackKeys(tracks);
+  const journalTracks = { ...entry.tracks };
+  let changed = false;
+  tracks.forEach((track, index) => {
+    const legacyKey = `local-${index}`;
+    if (track.id || !journalTracks[legacyKey] || journalTracks[keys[index]]) {
+      return;
+    }
+    journalTracks[keys[index]] = journalTracks[legacyKey];
+    delete journalTracks[legacyKey];
+    changed = true;
+  });
+  if (!changed) return entry;
+
+  const updated = { ...entry, tracks: journalTracks };
+  journal().set(`playlists.${entry.sourcePlaylistId}`, updated);
+  return updated;
+}
+
+export function loadPlaylistJournal(
+  sourcePlaylistId: string
+): PlaylistJournal | undefined {
+  return journal().get("playlists")[sourcePlaylistId];
+}
+
+export function listPlaylistJournals(): PlaylistJournal[] {
+  return Object.values(journal().get("playlists"));
+}
+
+export function startPlaylistJournal(
+  sourcePlaylistId: string,
+  source: string,
+  destination: string,
+  name: string,
+  destinationPlaylistId: string
+): PlaylistJournal {
+  const now = Date.now();
+  const entry: PlaylistJournal = {
+    sourcePlaylistId,
+    source,
+    destination,
+    name,
+    destinationPlaylistId,
+    startedAt: now,
+    updatedAt: now,
+    completed: false,
+    tracks: {},
+  };
+  journal().set(`playlists.${sourcePlaylistId}`, entry);
+  return entry;
+}
+
+export function recordTrackOutcome(
+  sourcePlaylistId: string,
+  trackKey: string,
+  outcome: Omit<TrackJournalEntry, "updatedAt">
+): void {
+  const now = Date.now();
+  journal().set(`playlists.${sourcePlaylistId}.tracks.${trackKey}`, {
+    ...outcome,
+    updatedAt: now,
+  });
+  journal().set(`playlists.${sourcePlaylistId}.updatedAt`, now);
+}
+
+export function forgetTrackOutcome(
+  sourcePlaylistId: string,
+  trackKey: string
+): void {
+  const entry = loadPlaylistJournal(sourcePlaylistId);
+  if (!entry) return;
+  const { [trackKey]: _removed, ...tracks } = entry.tracks;
+  journal().set(`playlists.${sourcePlaylistId}`, {
+    ...entry,
+    tracks,
+    updatedAt: Date.now(),
+  });
+}
+
+export function markPlaylistJournalCompleted(sourcePlaylistId: string): void {
+  journal().set(`playlists.${sourcePlaylistId}.completed`, true);
+  journal().set(`playlists.${sourcePlaylistId}.updatedAt`, Date.now());
+}
+
+export function clearJournal(): void {
+  journal().clear();
+  console.log("Transfer journal cleared.");
+}
@@ -0,0 +1,385 @@
+import { YouTubeVideo } from "./youtube.js";
+
+export interface MatchTarget {
+  name: string;
+  artists: string[];
+  durationMs?: number;
+}
+
+export interface MatchCandidate {
+  video: YouTubeVideo;
+  durationMs?: number;
+  /** Full description from the video details, when it was fetched. */
+  description?: string;
+}
+
+export interface ScoredCandidate extends MatchCandidate {
+  score: number;
+}
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+/**
+ * Which kind of upload to favour on YouTube: "audio" for the plain album
+ * track (e.g. "- Topic" channels), "video" for the official music video.
+ */
+export type MatchPreference = "audio" | "video" | "any";
+
+export const MATCH_PREFERENCES: MatchPreference[] = ["audio", "video", "any"];
+
+const PENALTY_KEYWORDS = [
+  "cover",
+  "live",
+  "karaoke",
+  "remix",
+  "instrumental",
+  "acoustic",
+  "sped up",
+  "slowed",
+  "reverb",
+  "nightcore",
+  "8d",
+  "loop",
+  "reaction",
+  "tutorial",
+];
+
+// Matches "10 hours", "1 hour version" and similar extended uploads.
+const EXTENDED_UPLOAD_PATTERN = /\b\d+\s*(hours?|hrs?)\b/;
+
+const TITLE_WEIGHT = 0.4;
+const ARTIST_WEIGHT = 0.3;
+const DURATION_WEIGHT = 0.3;
+const KEYWORD_PENALTY = 0.3;
+const PREFERENCE_BONUS = 0.15;
+
+const AUDIO_TITLE_PATTERN =
+  /\bofficial\s+audio\b|[([]\s*(audio|visualizer)\s*[)\]]/i;
+const VIDEO_TITLE_PATTERN =
+  /\b(official\s+(music\s+)?video|music\s+video|official\s+mv|clip\s+officiel)\b|[([]\s*(mv|video)\s*[)\]]/i;
+// Album tracks distributors upload to "- Topic" channels carry these lines.
+const AUTO_GENERATED_DESCRIPTION_PATTERN =
+  /^provided to youtube by\b|\bauto-generated by youtube\.?\s*$/i;
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+function containsPhrase(haystack: string, phrase: string): boolean {
+  if (!phrase) return false;
+  return ` ${haystack} `.includes(` ${phrase} `);
+}
+
+/**
+ * Strips Spotify-style version suffixes ("Song - Remastered 2011",
+ * "Song (feat. X)") so the core title is compared on its own.
+ */
+function coreTrackName(name: string): string {
+  return name
+    .replace(/\s+-\s+.*$/, "")
+    .replace(/\s*[([][^)\]]*[)\]]/g, "")
+    .trim() || name;
+}
+
+function channelArtist(channelTitle: string): string {
+  return normalizeText(
+    channelTitle
+      .replace(/\s+-\s+topic$/i, "")
+      .replace(/vevo$/i, "")
+      .replace(/\bofficial\b/i, "")
+  ).replace(/\s+/g, "");
+}
+
+function scoreTitle(trackName: string, candidateTitle: string): number {
+  const trackTokens = tokenize(coreTrackName(trackName));
+  if (trackTokens.length === 0) return 0;
+  const titleTokens = new Set(tokenize(candidateTitle));
+  const found = trackTokens.filter((t) => titleTokens.has(t)).length;
+  return found / trackTokens.length;
+}
+
+function scoreArtist(target: MatchTarget, video: YouTubeVideo): number {
+  if (target.artists.length === 0) return 0;
+  const channel = channelArtist(video.snippet.channelTitle);
+  const title = normalizeText(video.snippet.title);
+  let best = 0;
+  for (const artist of target.artists) {
+    const normalizedArtist = normalizeText(artist);
+    const compactArtist = normalizedArtist.replace(/\s+/g, "");
+    if (compactArtist && channel === compactArtist) {
+      return 1;
+    }
+    if (compactArtist && channel && channel.includes(compactArtist)) {
+      best = Math.max(best, 0.8);
+    } else if (containsPhrase(title, normalizedArtist)) {
+      best = Math.max(best, 0.6);
+    }
+  }
+  return best;
+}
+
+function scoreDuration(targetMs: number, videoMs: number): number {
+  const diffSeconds = Math.abs(targetMs - videoMs) / 1000;
+  if (diffSeconds <= 3) return 1;
+  if (diffSeconds <= 10) return 0.8;
+  if (diffSeconds <= 30) return 0.5;
+  if (videoMs > targetMs * 2) return -1;
+  return 0;
+}
+
+function keywordPenalty(targetName: string, candidateTitle: string): number {
+  const trackName = normalizeText(targetName);
+  const videoTitle = normalizeText(candidateTitle);
+  let penalty = 0;
+  for (const keyword of PENALTY_KEYWORDS) {
+    if (
+      containsPhrase(videoTitle, keyword) &&
+      !containsPhrase(trackName, keyword)
+    ) {
+      penalty += KEYWORD_PENALTY;
+    }
+  }
+  if (
+    EXTENDED_UPLOAD_PATTERN.test(videoTitle) &&
+    !EXTENDED_UPLOAD_PATTERN.test(trackName)
+  ) {
+    penalty += KEYWORD_PENALTY;
+  }
+  return penalty;
+}
+
+/** Whether a video is a plain audio upload, a music video or unclear. */
+function uploadKind(candidate: MatchCandidate): "audio" | "video" | undefined {
+  const { title, channelTitle } = candidate.video.snippet;
+  const description =
+    candidate.description ?? candidate.video.snippet.description ?? "";
+  if (
+    /\s+-\s+topic$/i.test(channelTitle) ||
+    AUTO_GENERATED_DESCRIPTION_PATTERN.test(description.trim()) ||
+    AUDIO_TITLE_PATTERN.test(title)
+  ) {
+    return "audio";
+  }
+  if (VIDEO_TITLE_PATTERN.test(title)) return "video";
+  return undefined;
+}
+
+function preferenceAdjustment(
+  preference: MatchPreference,
+  candidate: MatchCandidate
+): number {
+  if (preference === "any") return 0;
+  const kind = uploadKind(candidate);
+  if (!kind) return 0;
+  return kind === preference ? PREFERENCE_BONUS : -PREFERENCE_BONUS;
+}
+
+/**
+ * Scores how likely a YouTube video is to be the given track, from 0
+ * (certainly not) to 1 (title, channel and length all agree). A preference
+ * other than "any" moves uploads of that kind up and the other kind down.
+ */
+export function scoreCandidate(
+  target: MatchTarget,
+  candidate: MatchCandidate,
+  preference: MatchPreference = "any"
+): number {
+  let score =
+    TITLE_WEIGHT * scoreTitle(target.name, candidate.video.snippet.title) +
+    ARTIST_WEIGHT * scoreArtist(target, candidate.video);
+  let maxScore = TITLE_WEIGHT + ARTIST_WEIGHT;
+
+  if (target.durationMs && candidate.durationMs) {
+    score +=
+      DURATION_WEIGHT * scoreDuration(target.durationMs, candidate.durationMs);
+    maxScore += DURATION_WEIGHT;
+  }
+
+  score =
+    score / maxScore -
+    keywordPenalty(target.name, candidate.video.snippet.title) +
+    preferenceAdjustment(preference, candidate);
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+/**
+ * Sorts candidates by score. With an "audio" or "video" preference, uploads
+ * of the other kind are dropped once a confident match of the preferred kind
+ * was found.
+ */
+export function rankCandidates(
+  target: MatchTarget,
+  candidates: MatchCandidate[],
+  preference: MatchPreference = "any"
+): ScoredCandidate[] {
+  const ranked = candidates
+    .map((candidate, index) => ({
+      candidate: {
+        ...candidate,
+        score: scoreCandidate(target, candidate, preference),
+      },
+      index,
+    }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+  if (preference === "any") return ranked;
+
+  const hasPreferred = ranked.some(
+    (candidate) =>
+      candidate.score >= LOW_CONFIDENCE_THRESHOLD &&
+      uploadKind(candidate) === preference
+  );
+  if (!hasPreferred) return ranked;
+  return ranked.filter((candidate) => {
+    const kind = uploadKind(candidate);
+    return kind === undefined || kind === preference;
+  });
+}
+
+function scoreArtistNames(
+  targetArtists: string[],
+  candidateArtists: string[]
+): number {
+  let best = 0;
+  for (const targetArtist of targetArtists) {
+    const target = normalizeText(targetArtist).replace(/\s+/g, "");
+    if (!target) continue;
+    for (const candidateArtist of candidateArtists) {
+      const candidate = normalizeText(candidateArtist).replace(/\s+/g, "");
+      if (!candidate) continue;
+      if (candidate === target) return 1;
+      if (candidate.includes(target) || target.includes(candidate)) {
+        best = Math.max(best, 0.8);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Scores a track found on a streaming service (e.g. a Spotify search result)
+ * against a target parsed from a video title. Titles are compared in both
+ * directions so a short candidate like "Intro" can't match any long title.
+ */
+export function scoreTrackCandidate(
+  target: MatchTarget,
+  candidate: MatchTarget
+): number {
+  const titleScore =
+    (scoreTitle(candidate.name, target.name) +
+      scoreTitle(target.name, candidate.name)) /
+    2;
+  let artistScore = scoreArtistNames(target.artists, candidate.artists);
+  if (artistScore === 0) {
+    const targetName = normalizeText(target.name);
+    if (
+      candidate.artists.some((artist) =>
+        containsPhrase(targetName, normalizeText(artist))
+      )
+    ) {
+      artistScore = 0.6;
+    }
+  }
+
+  let score = TITLE_WEIGHT * titleScore + ARTIST_WEIGHT * artistScore;
+  let maxScore = TITLE_WEIGHT + ARTIST_WEIGHT;
+  if (target.durationMs && candidate.durationMs) {
+    score +=
+      DURATION_WEIGHT * scoreDuration(candidate.durationMs, target.durationMs);
+    maxScore += DURATION_WEIGHT;
+  }
+
+  score = score / maxScore - keywordPenalty(target.name, candidate.name);
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+export function rankTrackCandidates<T extends MatchTarget>(
+  target: MatchTarget,
+  candidates: T[]
+): (T & { score: number })[] {
+  return candidates
+    .map((candidate, index) => ({
+      candidate: {
+        ...candidate,
+        score: scoreTrackCandidate(target, candidate),
+      },
+      index,
+    }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+// Decorations uploaders add to video titles that are not part of the song.
+const VIDEO_TITLE_NOISE =
+  /[([]\s*(official\s*)?(music\s*)?(video|audio|lyrics?|lyric\s*video|visualizer|hd|hq|4k|remastered|mv|clip\s*officiel)[^)\]]*[)\]]/gi;
+const FEATURING_PATTERN =
+  /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring)\s+([^)\]]+)[)\]]?/i;
+
+/**
+ * Turns a video title such as "Artist - Title (Official Video)" into a track
+ * name and artist list. Titles without a separator (typical for "- Topic"
+ * channel uploads) take the artist from the channel name instead.
+ */
+export function parseVideoTitle(
+  title: string,
+  channelTitle: string
+): MatchTarget {
+  let cleaned = title
+    .replace(VIDEO_TITLE_NOISE, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const artists: string[] = [];
+
+  const featuring = FEATURING_PATTERN.exec(cleaned);
+  if (featuring) {
+    cleaned = cleaned.replace(featuring[0], "").trim();
+  }
+
+  const separator = /\s+[-–—|]\s+/.exec(cleaned);
+  let name = cleaned;
+  if (separator) {
+    const artistPart = cleaned.slice(0, separator.index).trim();
+    name = cleaned.slice(separator.index + separator[0].length).trim();
+    artists.push(
+      ...artistPart
+        .split(/\s*(?:,|&|\bx\b|\band\b)\s*/i)
+        .filter((artist) => artist.length > 0)
+    );
+  } else {
+    const channelName = channelTitle
+      .replace(/\s+-\s+topic$/i, "")
+      .replace(/vevo$/i, "")
+      .trim();
+    if (channelName) artists.push(channelName);
+  }
+
+  if (featuring) {
+    artists.push(...featuring[1].split(/\s*(?:,|&)\s*/).filter(Boolean));
+  }
+
+  return { name: name.replace(/^["']|["']$/g, "").trim() || title, artists };
+}
+
+/**
+ * Converts an ISO 8601 duration as returned by the YouTube API
+ * (e.g. "PT4M13S") to milliseconds.
+ */
+export function parseIsoDuration(duration: string): number | undefined {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    duration
+  );
+  if (!match) return undefined;
+  const [, days, hours, minutes, seconds] = match.map((v) => Number(v ?? 0));
+  return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
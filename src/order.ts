@@ -0,0 +1,105 @@
+/**
+ * The entries of a destination playlist in playlist order, each given as the
+ * (1-based) position of its track in the source playlist, or null for
+ * entries that match no source track.
+ */
+export type PlaylistLayout = (number | null)[];
+
+export interface PlannedMove {
+  /** Index of the entry in the layout passed to planReorder. */
+  entryIndex: number;
+  /** Zero-based index the entry must end up at. */
+  position: number;
+}
+
+/**
+ * Where a track belongs in the destination playlist: right after the last
+ * entry of a track that comes before it in the source playlist.
+ */
+export function insertPosition(
+  layout: PlaylistLayout,
+  sourcePosition: number
+): number {
+  let index = 0;
+  layout.forEach((position, i) => {
+    if (position !== null && position < sourcePosition) index = i + 1;
+  });
+  return index;
+}
+
+/** Indices of one longest strictly increasing subsequence of values. */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+
+  const indices = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    indices.add(i);
+  }
+  return indices;
+}
+
+/**
+ * Plans the fewest moves that put the matched entries in source order: the
+ * longest run already in order stays where it is, and every other entry is
+ * moved, in source order, right behind its predecessor. Unmatched entries
+ * are never moved. The moves must be applied one after another.
+ */
+export function planReorder(layout: PlaylistLayout): PlannedMove[] {
+  const matched = layout.flatMap((sourcePosition, entryIndex) =>
+    sourcePosition === null ? [] : [{ entryIndex, sourcePosition }]
+  );
+  const inOrder = longestIncreasingSubsequence(
+    matched.map((entry) => entry.sourcePosition)
+  );
+  const placed = new Set(
+    matched.filter((_, i) => inOrder.has(i)).map((entry) => entry.entryIndex)
+  );
+  const toMove = matched
+    .filter((_, i) => !inOrder.has(i))
+    .sort((a, b) => a.sourcePosition - b.sourcePosition);
+
+  // The playlist as it will look after each move, as entry indices.
+  const playlist = layout.map((_, entryIndex) => entryIndex);
+  const moves: PlannedMove[] = [];
+  for (const entry of toMove) {
+    playlist.splice(playlist.indexOf(entry.entryIndex), 1);
+
+    let position = -1;
+    let predecessor = 0;
+    playlist.forEach((entryIndex, i) => {
+      const sourcePosition = layout[entryIndex]!;
+      if (
+        placed.has(entryIndex) &&
+        sourcePosition < entry.sourcePosition &&
+        sourcePosition > predecessor
+      ) {
+        predecessor = sourcePosition;
+        position = i + 1;
+      }
+    });
+    if (position === -1) {
+      // First in source order: goes before every placed entry.
+      position = playlist.findIndex((entryIndex) => placed.has(entryIndex));
+    }
+
+    playlist.splice(position, 0, entry.entryIndex);
+    placed.add(entry.entryIndex);
+    moves.push({ entryIndex: entry.entryIndex, position });
+  }
+  return moves;
+}
@@ -0,0 +1,112 @@
+/**
+ * Service-neutral models and the interfaces every music service implements
+ * to take part in a transfer, either as the side playlists are read from
+ * (source) or the side they are recreated on (destination).
+ */
+
+export interface Track {
+  /** ID on the source service; null for items that have none (local files). */
+  id: string | null;
+  name: string;
+  artists: string[];
+  album?: string;
+  durationMs?: number;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  description: string;
+  owner?: string;
+  /** Link to the playlist on its service, if it has one. */
+  url?: string;
+  trackCount: number;
+  /** Library collections (liked songs, albums, ...) rather than playlists. */
+  isLibrary?: boolean;
+}
+
+/** Services without unlisted playlists create private ones instead. */
+export type PlaylistPrivacy = "private" | "unlisted" | "public";
+
+export const PLAYLIST_PRIVACY_VALUES: PlaylistPrivacy[] = [
+  "private",
+  "unlisted",
+  "public",
+];
+
+export interface MatchedItem {
+  /** ID that destination.addItems accepts (video ID, track URI, ...). */
+  id: string;
+  title: string;
+  /** Secondary line shown next to the title: channel, artists, ... */
+  subtitle: string;
+  url: string;
+  score: number;
+}
+
+export interface MatchResult {
+  best: MatchedItem;
+  alternatives: MatchedItem[];
+  fromCache: boolean;
+}
+
+export interface AddItemResult {
+  added: boolean;
+  /** Why the item could not be added. */
+  error?: string;
+}
+
+export interface PlaylistEntry {
+  /** ID of the entry inside the playlist, used for removal and moves. */
+  entryId: string;
+  /** ID of the item the entry points to, as returned by search. */
+  itemId: string;
+  title: string;
+}
+
+export interface SourceProvider {
+  name: string;
+  listPlaylists(): Promise<Playlist[]>;
+  getTracks(playlistId: string): Promise<Track[]>;
+}
+
+export interface DestinationProvider {
+  name: string;
+  /** Maximum number of items addItems accepts per call. */
+  addBatchSize: number;
+  createPlaylist(
+    name: string,
+    description: string,
+    privacy?: PlaylistPrivacy
+  ): Promise<string | null>;
+  /** The user's playlists, to find ones a transfer can add to. */
+  listPlaylists?(): Promise<Playlist[]>;
+  /** The ID in a link to one of this service's playlists, or null. */
+  parsePlaylistUrl?(input: string): string | null;
+  /** With a query, searches for that text instead and bypasses any cache. */
+  search(track: Track, query?: string): Promise<MatchResult | null>;
+  /** Turns a pasted URL or ID into an item, or null if it is not one. */
+  parseItemInput?(input: string): MatchedItem | null;
+  /** Remembers a choice made during review (null = skip) for later runs. */
+  rememberChoice?(track: Track, item: MatchedItem | null): void;
+  /** Whether the track was skipped during an earlier review. */
+  wasSkipped?(track: Track): boolean;
+  /**
+   * Inserts the items, in order, starting at the zero-based position (at the
+   * end without one). Returns, per item and in order, whether it was added.
+   */
+  addItems(
+    playlistId: string,
+    itemIds: string[],
+    position?: number
+  ): Promise<AddItemResult[]>;
+  listItems?(playlistId: string): Promise<PlaylistEntry[]>;
+  removeItem?(playlistId: string, entryId: string): Promise<boolean>;
+  /** Moves an entry to the zero-based position. */
+  moveItem?(
+    playlistId: string,
+    entry: PlaylistEntry,
+    position: number
+  ): Promise<boolean>;
+  playlistUrl(playlistId: string): string;
+}
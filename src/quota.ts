@@ -0,0 +1,121 @@
+import { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import config, { openProfileStore } from "./config.js";
+import { ApiError, forbiddenReasons } from "./http.js";
+
+// Unit costs from https://developers.google.com/youtube/v3/determine_quota_cost
+const CALL_COSTS: Record<string, number> = {
+  "GET /search": 100,
+  "GET /videos": 1,
+  "GET /playlists": 1,
+  "GET /playlistItems": 1,
+  "POST /playlists": 50,
+  "PUT /playlists": 50,
+  "DELETE /playlists": 50,
+  "POST /playlistItems": 50,
+  "PUT /playlistItems": 50,
+  "DELETE /playlistItems": 50,
+};
+
+const DEFAULT_CALL_COST = 1;
+
+export const TRACK_TRANSFER_COST =
+  CALL_COSTS["GET /search"] +
+  CALL_COSTS["GET /videos"] +
+  CALL_COSTS["POST /playlistItems"];
+export const TRACK_SEARCH_COST =
+  CALL_COSTS["GET /search"] + CALL_COSTS["GET /videos"];
+export const PLAYLIST_CREATE_COST = CALL_COSTS["POST /playlists"];
+
+export interface QuotaUsage {
+  date: string;
+  total: number;
+  byCall: Record<string, number>;
+  exhausted: boolean;
+}
+
+interface QuotaSchema {
+  usage?: QuotaUsage;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message = "YouTube Data API daily quota exceeded.") {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Per profile, as profiles may use different Google Cloud projects.
+function quotaStore() {
+  return openProfileStore<QuotaSchema>("quota");
+}
+
+/**
+ * YouTube resets quotas at midnight Pacific Time, so the usage day is keyed
+ * on that calendar date rather than the local one.
+ */
+function quotaDay(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "America/Los_Angeles",
+  });
+}
+
+export function getDailyQuotaLimit(): number {
+  return config.get("youtubeDailyQuota", 10000);
+}
+
+export function getQuotaUsage(): QuotaUsage {
+  const usage = quotaStore().get("usage");
+  const today = quotaDay();
+  if (!usage || usage.date !== today) {
+    return { date: today, total: 0, byCall: {}, exhausted: false };
+  }
+  return usage;
+}
+
+export function getRemainingQuota(): number {
+  const usage = getQuotaUsage();
+  if (usage.exhausted) return 0;
+  return Math.max(0, getDailyQuotaLimit() - usage.total);
+}
+
+function recordCall(callType: string): void {
+  const usage = getQuotaUsage();
+  const cost = CALL_COSTS[callType] ?? DEFAULT_CALL_COST;
+  usage.total += cost;
+  usage.byCall[callType] = (usage.byCall[callType] ?? 0) + cost;
+  quotaStore().set("usage", usage);
+}
+
+function markQuotaExhausted(): void {
+  quotaStore().set("usage", { ...getQuotaUsage(), exhausted: true });
+}
+
+function callTypeOf(requestConfig: InternalAxiosRequestConfig): string {
+  const method = (requestConfig.method ?? "get").toUpperCase();
+  const path = (requestConfig.url ?? "").split("?")[0];
+  return `${method} ${path}`;
+}
+
+function isQuotaExceededError(error: ApiError): boolean {
+  const reasons = forbiddenReasons(error);
+  return (
+    reasons.includes("quotaExceeded") || reasons.includes("dailyLimitExceeded")
+  );
+}
+
+export function attachQuotaTracker(client: AxiosInstance): AxiosInstance {
+  client.interceptors.request.use((requestConfig) => {
+    recordCall(callTypeOf(requestConfig));
+    return requestConfig;
+  });
+
+  client.interceptors.response.use(undefined, (error: ApiError) => {
+    if (isQuotaExceededError(error)) {
+      markQuotaExhausted();
+      return Promise.reject(new QuotaExceededError());
+    }
+    return Promise.reject(error);
+  });
+
+  return client;
+}
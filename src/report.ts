@@ -0,0 +1,102 @@
+import chalk from "chalk";
+import { writeFileSync } from "node:fs";
+import { MatchedItem } from "./provider.js";
+import { TrackOutcome } from "./journal.js";
+
+export type MatchStatus = "matched" | "low_confidence" | "not_found";
+
+export interface TrackMatchReport {
+  position: number;
+  sourceTrackId: string | null;
+  name: string;
+  artists: string[];
+  durationMs?: number;
+  status: MatchStatus;
+  chosen?: MatchedItem;
+  alternatives: MatchedItem[];
+}
+
+export interface PlaylistMatchReport {
+  sourcePlaylistId: string;
+  name: string;
+  tracks: TrackMatchReport[];
+}
+
+export interface TrackTransferResult {
+  position: number;
+  sourceTrackId: string | null;
+  name: string;
+  artists: string[];
+  status: TrackOutcome;
+  /** ID of the added (or attempted) item on the destination. */
+  itemId?: string;
+  score?: number;
+  error?: string;
+  /** Processed by an earlier, resumed run. */
+  fromEarlierRun?: boolean;
+  /** The matched item was already in the playlist merged into. */
+  alreadyPresent?: boolean;
+}
+
+/**
+ * completed: every track was added. partial: some were not found or failed.
+ * failed: the destination playlist could not be created. interrupted: the
+ * run stopped (quota) before all tracks were processed. skipped: the
+ * destination already had the playlist (--on-existing skip).
+ */
+export type PlaylistTransferStatus =
+  | "completed"
+  | "partial"
+  | "failed"
+  | "interrupted"
+  | "empty"
+  | "skipped";
+
+export interface PlaylistTransferResult {
+  sourcePlaylistId: string;
+  name: string;
+  destinationPlaylistId: string | null;
+  destinationUrl?: string;
+  status: PlaylistTransferStatus;
+  error?: string;
+  tracks: TrackTransferResult[];
+}
+
+export function printMatchReport(report: PlaylistMatchReport): void {
+  console.log(chalk.magenta(`\nMatch report for "${report.name}":`));
+  for (const track of report.tracks) {
+    const label = `[${track.position}] "${track.name}" by ${track.artists.join(
+      ", "
+    )}`;
+    if (!track.chosen) {
+      console.log(chalk.yellow(`  ${label} -> not found`));
+      continue;
+    }
+    const line = `  ${label} -> "${track.chosen.title}" (${track.chosen.subtitle}, score: ${track.chosen.score})`;
+    console.log(
+      track.status === "matched"
+        ? chalk.gray(line)
+        : chalk.yellow(`${line} [low confidence]`)
+    );
+    for (const alternative of track.alternatives) {
+      console.log(
+        chalk.dim(
+          `      alt: "${alternative.title}" (${alternative.subtitle}, score: ${alternative.score})`
+        )
+      );
+    }
+  }
+
+  const countOf = (status: MatchStatus) =>
+    report.tracks.filter((t) => t.status === status).length;
+  console.log(chalk.green(`  Matched: ${countOf("matched")} tracks`));
+  console.log(
+    chalk.yellow(`  Low confidence: ${countOf("low_confidence")} tracks`)
+  );
+  console.log(chalk.yellow(`  Not found: ${countOf("not_found")} tracks`));
+}
+
+export function writeReportFile(path: string, data: unknown): void {
+  writeFileSync(path, JSON.stringify(data, null, 2) + "\n", "utf8");
+  console.log(chalk.cyan(`Report written to: ${path}`));
+}
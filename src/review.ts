@@ -0,0 +1,126 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import {
+  Track,
+  MatchedItem,
+  MatchResult,
+  DestinationProvider,
+} from "./provider.js";
+import { LOW_CONFIDENCE_THRESHOLD } from "./matcher.js";
+
+type ReviewChoice =
+  | { action: "pick"; item: MatchedItem }
+  | { action: "paste" }
+  | { action: "search" }
+  | { action: "skip" };
+
+export function needsReview(match: MatchResult | null): boolean {
+  return !match || match.best.score < LOW_CONFIDENCE_THRESHOLD;
+}
+
+function describeItem(item: MatchedItem): string {
+  return `"${item.title}"${item.subtitle ? ` (${item.subtitle})` : ""}, score: ${
+    item.score
+  } ${chalk.dim(item.url)}`;
+}
+
+/**
+ * Asks the user what to do with a low-confidence or missing match. The
+ * decision is remembered by the destination (when it supports that), so the
+ * same track is not asked about again on later runs.
+ */
+export async function reviewMatch(
+  destination: DestinationProvider,
+  track: Track,
+  initialMatch: MatchResult | null,
+  label: string
+): Promise<MatchResult | null> {
+  let match = initialMatch;
+
+  while (true) {
+    console.log(
+      chalk.yellow(
+        `\n    Review ${label}: ${
+          match
+            ? `low-confidence match (score: ${match.best.score})`
+            : `no match found on ${destination.name}`
+        }`
+      )
+    );
+
+    const candidates = match ? [match.best, ...match.alternatives] : [];
+    const choices = [
+      ...candidates.map((item, i) => ({
+        name: `${i === 0 ? "Accept" : "Use"} ${describeItem(item)}`,
+        value: { action: "pick", item } as ReviewChoice,
+      })),
+      ...(destination.parseItemInput
+        ? [
+            {
+              name: `Paste a ${destination.name} URL or ID`,
+              value: { action: "paste" } as ReviewChoice,
+            },
+          ]
+        : []),
+      {
+        name: "Search with a different query",
+        value: { action: "search" } as ReviewChoice,
+      },
+      { name: "Skip this track", value: { action: "skip" } as ReviewChoice },
+    ];
+
+    const { choice } = await inquirer.prompt<{ choice: ReviewChoice }>([
+      {
+        type: "list",
+        name: "choice",
+        message: "What should be added?",
+        choices,
+        pageSize: 10,
+      },
+    ]);
+
+    if (choice.action === "pick" || choice.action === "paste") {
+      let item: MatchedItem;
+      if (choice.action === "pick") {
+        item = choice.item;
+      } else {
+        const { input } = await inquirer.prompt<{ input: string }>([
+          {
+            name: "input",
+            message: `${destination.name} URL or ID:`,
+            validate: (value: string) =>
+              destination.parseItemInput!(value)
+                ? true
+                : `Not a valid ${destination.name} URL or ID.`,
+          },
+        ]);
+        item = destination.parseItemInput!(input)!;
+      }
+      destination.rememberChoice?.(track, item);
+      return {
+        best: { ...item, score: 1 },
+        alternatives: candidates.filter((c) => c.id !== item.id),
+        fromCache: false,
+      };
+    }
+
+    if (choice.action === "skip") {
+      destination.rememberChoice?.(track, null);
+      return null;
+    }
+
+    const { query } = await inquirer.prompt<{ query: string }>([
+      {
+        name: "query",
+        message: "Search for:",
+        default: `${track.name} ${track.artists.join(" ")}`,
+      },
+    ]);
+    const newMatch = await destination.search(track, query);
+    if (newMatch) {
+      match = newMatch;
+    } else {
+      console.log(chalk.yellow(`    Nothing found for "${query}".`));
+    }
+  }
+}
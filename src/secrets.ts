@@ -0,0 +1,185 @@
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  rmSync,
+  mkdirSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+
+/** Values kept out of the plain config file. Tokens are stored as JSON. */
+export type SecretName =
+  | "spotifyClientSecret"
+  | "googleClientSecret"
+  | "spotifyToken"
+  | "googleToken";
+
+export const SECRET_NAMES: SecretName[] = [
+  "spotifyClientSecret",
+  "googleClientSecret",
+  "spotifyToken",
+  "googleToken",
+];
+
+export type SecretBackend = "file" | "env";
+
+export interface SecretStore {
+  backend: SecretBackend;
+  /** Whether set() survives the process (env values only live in memory). */
+  persistent: boolean;
+  get(name: SecretName): string | undefined;
+  set(name: SecretName, value: string): void;
+  delete(name: SecretName): void;
+}
+
+interface EncryptedSecretsFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function encryptSecrets(
+  secrets: Record<string, string>,
+  passphrase: string
+): EncryptedSecretsFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf8"),
+    cipher.final(),
+  ]);
+  return {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decryptSecrets(
+  file: EncryptedSecretsFile,
+  passphrase: string
+): Record<string, string> {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, Buffer.from(file.salt, "base64")),
+    Buffer.from(file.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  try {
+    const json = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+    return JSON.parse(json);
+  } catch {
+    throw new Error("Wrong passphrase, or the secrets file is damaged.");
+  }
+}
+
+export function secretsFileExists(path: string): boolean {
+  return existsSync(path);
+}
+
+export function removeSecretsFile(path: string): void {
+  rmSync(path, { force: true });
+}
+
+/**
+ * Secrets encrypted at rest with AES-256-GCM, using a key derived from the
+ * passphrase with scrypt. The file is rewritten (with a fresh salt and IV)
+ * on every change.
+ */
+export function createEncryptedFileStore(
+  path: string,
+  passphrase: string
+): SecretStore {
+  const secrets: Record<string, string> = existsSync(path)
+    ? decryptSecrets(JSON.parse(readFileSync(path, "utf8")), passphrase)
+    : {};
+
+  const save = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(
+      path,
+      JSON.stringify(encryptSecrets(secrets, passphrase), null, 2),
+      { encoding: "utf8", mode: 0o600 }
+    );
+  };
+
+  return {
+    backend: "file",
+    persistent: true,
+    get: (name) => secrets[name],
+    set(name, value) {
+      secrets[name] = value;
+      save();
+    },
+    delete(name) {
+      if (!(name in secrets)) return;
+      delete secrets[name];
+      save();
+    },
+  };
+}
+
+export const SECRET_ENV_VARS = {
+  spotifyClientSecret: "SYP_SPOTIFY_CLIENT_SECRET",
+  googleClientSecret: "SYP_GOOGLE_CLIENT_SECRET",
+  spotifyRefreshToken: "SYP_SPOTIFY_REFRESH_TOKEN",
+  googleRefreshToken: "SYP_GOOGLE_REFRESH_TOKEN",
+};
+
+/**
+ * Read-only secrets from environment variables, for CI. Tokens are built
+ * from refresh tokens alone so they are refreshed on first use; refreshed
+ * tokens are only kept in memory.
+ */
+export function createEnvSecretStore(
+  env: NodeJS.ProcessEnv = process.env
+): SecretStore {
+  const spotifyRefreshToken = env[SECRET_ENV_VARS.spotifyRefreshToken];
+  const googleRefreshToken = env[SECRET_ENV_VARS.googleRefreshToken];
+  const secrets: Partial<Record<SecretName, string>> = {
+    spotifyClientSecret: env[SECRET_ENV_VARS.spotifyClientSecret],
+    googleClientSecret: env[SECRET_ENV_VARS.googleClientSecret],
+    spotifyToken: spotifyRefreshToken
+      ? JSON.stringify({
+          access_token: "",
+          refresh_token: spotifyRefreshToken,
+          token_type: "Bearer",
+          expires_in: 0,
+          expires_at: 1,
+        })
+      : undefined,
+    googleToken: googleRefreshToken
+      ? JSON.stringify({ refresh_token: googleRefreshToken })
+      : undefined,
+  };
+
+  return {
+    backend: "env",
+    persistent: false,
+    get: (name) => secrets[name],
+    set(name, value) {
+      secrets[name] = value;
+    },
+    delete(name) {
+      delete secrets[name];
+    },
+  };
+}
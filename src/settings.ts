@@ -0,0 +1,263 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import config, {
+  ConfigSchema,
+  getSecret,
+  setSecret,
+  deleteSecret,
+} from "./config.js";
+import { SecretName } from "./secrets.js";
+import { PLAYLIST_PRIVACY_VALUES } from "./provider.js";
+import { TEMPLATE_PLACEHOLDERS } from "./template.js";
+import { MATCH_PREFERENCES } from "./matcher.js";
+
+/** Config fields users may set; tokens are managed by the auth flows. */
+export type SettingKey = Exclude<
+  keyof ConfigSchema,
+  "spotifyToken" | "googleToken"
+>;
+
+export type SettingValues = Partial<Pick<ConfigSchema, SettingKey>>;
+
+type SettingValue = NonNullable<SettingValues[SettingKey]>;
+
+export interface Setting {
+  key: SettingKey;
+  type: "string" | "boolean" | "number" | "list";
+  description: string;
+  /** Kept in the secret store instead of the config file. */
+  secret?: boolean;
+  choices?: string[];
+}
+
+export const SETTINGS: Setting[] = [
+  { key: "spotifyClientId", type: "string", description: "Spotify Client ID" },
+  {
+    key: "spotifyClientSecret",
+    type: "string",
+    description: "Spotify Client Secret",
+    secret: true,
+  },
+  {
+    key: "spotifyUsePkce",
+    type: "boolean",
+    description: "Log in to Spotify with PKCE (true or false)",
+  },
+  {
+    key: "spotifyRedirectUri",
+    type: "string",
+    description: "Spotify Redirect URI",
+  },
+  {
+    key: "spotifyScopes",
+    type: "string",
+    description: "Spotify scopes, separated by spaces",
+  },
+  { key: "googleClientId", type: "string", description: "Google Client ID" },
+  {
+    key: "googleClientSecret",
+    type: "string",
+    description: "Google Client Secret",
+    secret: true,
+  },
+  {
+    key: "googleRedirectUri",
+    type: "string",
+    description: "Google Redirect URI",
+  },
+  {
+    key: "googleScopes",
+    type: "list",
+    description: "Google scopes, separated by commas or spaces",
+  },
+  {
+    key: "callbackPort",
+    type: "number",
+    description: "Port for the OAuth callback server",
+  },
+  {
+    key: "youtubeDailyQuota",
+    type: "number",
+    description: "YouTube Data API daily quota (units)",
+  },
+  {
+    key: "secretBackend",
+    type: "string",
+    description: "Where secrets are kept: file or env",
+    choices: ["file", "env"],
+  },
+  {
+    key: "playlistPrivacy",
+    type: "string",
+    description: "Privacy of created playlists: private, unlisted or public",
+    choices: PLAYLIST_PRIVACY_VALUES,
+  },
+  {
+    key: "playlistTitleTemplate",
+    type: "string",
+    description: `Title template for created playlists; placeholders: ${TEMPLATE_PLACEHOLDERS}`,
+  },
+  {
+    key: "playlistDescriptionTemplate",
+    type: "string",
+    description: `Description template for created playlists; placeholders: ${TEMPLATE_PLACEHOLDERS}`,
+  },
+  {
+    key: "matchPreference",
+    type: "string",
+    description:
+      "YouTube uploads to favour when matching: audio, video or any",
+    choices: MATCH_PREFERENCES,
+  },
+];
+
+function toKebabCase(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/** spotifyClientId -> --spotify-client-id */
+export function settingFlag(setting: Setting): string {
+  return `--${toKebabCase(setting.key)}`;
+}
+
+/** spotifyClientId -> SYP_SPOTIFY_CLIENT_ID */
+export function settingEnvVar(setting: Setting): string {
+  return `SYP_${toKebabCase(setting.key).replace(/-/g, "_").toUpperCase()}`;
+}
+
+export function findSetting(key: string): Setting {
+  const setting = SETTINGS.find((s) => s.key === key);
+  if (!setting) {
+    throw new Error(
+      `Unknown setting "${key}". Valid settings: ${SETTINGS.map(
+        (s) => s.key
+      ).join(", ")}.`
+    );
+  }
+  return setting;
+}
+
+/**
+ * Converts a value from a flag or environment variable (always a string) or
+ * from a settings file (already typed) to the type the config stores.
+ */
+export function parseSettingValue(
+  setting: Setting,
+  value: unknown
+): SettingValue {
+  const invalid = (expected: string) =>
+    new Error(
+      `Invalid value for ${setting.key}: ${JSON.stringify(
+        value
+      )} (expected ${expected}).`
+    );
+
+  switch (setting.type) {
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (/^(true|yes|1)$/i.test(String(value))) return true;
+      if (/^(false|no|0)$/i.test(String(value))) return false;
+      throw invalid("true or false");
+    case "number": {
+      const number = typeof value === "number" ? value : Number(value);
+      if (!Number.isInteger(number) || number <= 0 || value === "") {
+        throw invalid("a positive whole number");
+      }
+      return number;
+    }
+    case "list": {
+      const items = Array.isArray(value)
+        ? value.map(String)
+        : String(value).split(/[\s,]+/);
+      return items.map((item) => item.trim()).filter(Boolean);
+    }
+    default: {
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw invalid("a string");
+      }
+      const text = String(value).trim();
+      if (setting.choices && !setting.choices.includes(text)) {
+        throw invalid(setting.choices.join(" or "));
+      }
+      return text;
+    }
+  }
+}
+
+/** Reads settings from a JSON file, or a YAML file (.yaml or .yml). */
+export function readSettingsFile(path: string): SettingValues {
+  let data: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    data = /^\.ya?ml$/i.test(extname(path))
+      ? parseYaml(text)
+      : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Could not read settings from ${path}: ${error.message}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${path} must contain an object of settings.`);
+  }
+
+  const values: Record<string, SettingValue> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null || value === undefined) continue;
+    const setting = findSetting(key);
+    values[key] = parseSettingValue(setting, value);
+  }
+  return values;
+}
+
+/**
+ * Collects the settings given on the command line (flags, keyed like
+ * ConfigSchema), in SYP_* environment variables and in a settings file.
+ * Earlier sources win; settings none of them give are left out.
+ */
+export function resolveSettings(
+  flags: Record<string, unknown>,
+  fromFile: SettingValues = {},
+  env: NodeJS.ProcessEnv = process.env
+): SettingValues {
+  const values: Record<string, SettingValue> = {};
+  for (const setting of SETTINGS) {
+    const fromFlag = flags[setting.key];
+    const fromEnv = env[settingEnvVar(setting)];
+    if (fromFlag !== undefined) {
+      values[setting.key] = parseSettingValue(setting, fromFlag);
+    } else if (fromEnv) {
+      values[setting.key] = parseSettingValue(setting, fromEnv);
+    } else if (fromFile[setting.key] !== undefined) {
+      values[setting.key] = fromFile[setting.key]!;
+    }
+  }
+  return values;
+}
+
+// Secret settings need the secret store to be unlocked first.
+
+export function getSetting<K extends SettingKey>(key: K): ConfigSchema[K] {
+  const setting = findSetting(key);
+  if (setting.secret) {
+    return getSecret(key as SecretName) as ConfigSchema[K];
+  }
+  return config.get(key);
+}
+
+export function setSetting(key: SettingKey, value: SettingValue): void {
+  if (findSetting(key).secret) {
+    setSecret(key as SecretName, String(value));
+  } else {
+    config.set({ [key]: value } as SettingValues);
+  }
+}
+
+/** Removes a setting; settings with a default go back to it. */
+export function unsetSetting(key: SettingKey): void {
+  if (findSetting(key).secret) {
+    deleteSecret(key as SecretName);
+  } else {
+    config.delete(key);
+    config.reset(key);
+  }
+}
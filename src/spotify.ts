@@ -1,7 +1,12 @@
-import axios, { AxiosInstance } from "axios";
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from "axios";
 import http from "http";
 import url from "url";
 import open from "open";
+import { createHash, randomBytes } from "node:crypto";
 import {
   saveSpotifyToken,
   loadSpotifyToken,
@@ -10,6 +15,18 @@ import {
   deleteSpotifyToken,
   getCallbackPort,
 } from "./config.js";
+import { createHttpClient } from "./http.js";
+import { AuthMode, promptForAuthorizationCode } from "./auth.js";
+import { rankTrackCandidates } from "./matcher.js";
+import {
+  Track,
+  Playlist,
+  MatchResult,
+  SourceProvider,
+  DestinationProvider,
+  AddItemResult,
+  PlaylistPrivacy,
+} from "./provider.js";
 
 export interface SpotifyUser {
   id: string;
@@ -24,6 +41,27 @@ export interface SpotifyPlaylist {
   tracks: { href: string; total: number };
 }
 
+export interface SpotifyAlbum {
+  id: string;
+  name: string;
+  artists: { name: string }[];
+  total_tracks: number;
+}
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+}
+
+export interface SpotifySearchTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: { name: string }[];
+  album: { name: string };
+  duration_ms: number;
+}
+
 export interface SpotifyTrack {
   track: {
     id: string;
@@ -34,7 +72,23 @@ export interface SpotifyTrack {
   } | null;
 }
 
-async function getSpotifyAuthorizationCode(port: number): Promise<string> {
+interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+/** Code verifier and its S256 challenge for the PKCE flow (RFC 7636). */
+function createPkcePair(): PkcePair {
+  const verifier = randomBytes(64).toString("base64url");
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+}
+
+async function getSpotifyAuthorizationCode(
+  port: number,
+  mode: AuthMode,
+  pkce?: PkcePair
+): Promise<string> {
   const creds = getSpotifyCredentials();
   if (!creds.clientId || !creds.redirectUri || !creds.scopes) {
     throw new Error("Spotify API credentials missing in configuration.");
@@ -49,10 +103,16 @@ async function getSpotifyAuthorizationCode(port: number): Promise<string> {
       scope: creds.scopes!,
       redirect_uri: creds.redirectUri!,
       state: state,
+      ...(pkce
+        ? { code_challenge_method: "S256", code_challenge: pkce.challenge }
+        : {}),
     }).toString();
 
   console.log("\nPlease authorize this app with Spotify:");
   console.log(authUrl);
+  if (mode !== "browser") {
+    return promptForAuthorizationCode("Spotify", state);
+  }
   await open(authUrl);
 
   return new Promise((resolve, reject) => {
@@ -108,32 +168,51 @@ async function getSpotifyAuthorizationCode(port: number): Promise<string> {
   });
 }
 
+/**
+ * Posts to Spotify's token endpoint. With PKCE the client only identifies
+ * itself by ID; otherwise it authenticates with ID and secret.
+ */
+function postSpotifyTokenRequest(params: Record<string, string>) {
+  const creds = getSpotifyCredentials();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+  if (creds.usePkce) {
+    params = { ...params, client_id: creds.clientId! };
+  } else {
+    headers.Authorization =
+      "Basic " +
+      Buffer.from(creds.clientId + ":" + creds.clientSecret).toString(
+        "base64"
+      );
+  }
+  return axios.post<SpotifyToken>(
+    "https://accounts.spotify.com/api/token",
+    new URLSearchParams(params).toString(),
+    { headers }
+  );
+}
+
+function hasSpotifyClientCredentials(): boolean {
+  const creds = getSpotifyCredentials();
+  return Boolean(creds.clientId && (creds.usePkce || creds.clientSecret));
+}
+
 async function exchangeSpotifyCodeForToken(
-  code: string
+  code: string,
+  codeVerifier?: string
 ): Promise<SpotifyToken> {
   const creds = getSpotifyCredentials();
-  if (!creds.clientId || !creds.clientSecret || !creds.redirectUri) {
+  if (!hasSpotifyClientCredentials() || !creds.redirectUri) {
     throw new Error("Spotify API credentials missing for token exchange.");
   }
   try {
-    const response: any = await axios.post<SpotifyToken>(
-      "https://accounts.spotify.com/api/token",
-      new URLSearchParams({
-        grant_type: "authorization_code",
-        code: code,
-        redirect_uri: creds.redirectUri!,
-      }).toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization:
-            "Basic " +
-            Buffer.from(creds.clientId + ":" + creds.clientSecret).toString(
-              "base64"
-            ),
-        },
-      }
-    );
+    const response: any = await postSpotifyTokenRequest({
+      grant_type: "authorization_code",
+      code: code,
+      redirect_uri: creds.redirectUri!,
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+    });
 
     const token = response.data;
     token.expires_at = Date.now() + token.expires_in * 1000;
@@ -150,32 +229,19 @@ async function exchangeSpotifyCodeForToken(
 async function refreshSpotifyToken(
   refreshToken: string
 ): Promise<SpotifyToken> {
-  const creds = getSpotifyCredentials();
-  if (!creds.clientId || !creds.clientSecret) {
+  if (!hasSpotifyClientCredentials()) {
     throw new Error("Spotify API credentials missing for token refresh.");
   }
   try {
     console.log("Refreshing Spotify token...");
-    const response: any = await axios.post<SpotifyToken>(
-      "https://accounts.spotify.com/api/token",
-      new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: refreshToken,
-      }).toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization:
-            "Basic " +
-            Buffer.from(creds.clientId + ":" + creds.clientSecret).toString(
-              "base64"
-            ),
-        },
-      }
-    );
+    const response: any = await postSpotifyTokenRequest({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
 
     const token = response.data;
-    token.refresh_token = refreshToken;
+    // PKCE refresh tokens are single-use; Spotify sends a replacement.
+    token.refresh_token = token.refresh_token ?? refreshToken;
     token.expires_at = Date.now() + token.expires_in * 1000;
     console.log("Spotify token refreshed successfully.");
     return token;
@@ -188,10 +254,29 @@ async function refreshSpotifyToken(
   }
 }
 
-export async function getSpotifyToken(): Promise<SpotifyToken> {
+function hasScopes(granted: string, required: string): boolean {
+  const grantedScopes = new Set(granted.split(/\s+/));
+  return required
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((scope) => grantedScopes.has(scope));
+}
+
+export async function getSpotifyToken(
+  mode: AuthMode = "browser"
+): Promise<SpotifyToken> {
   let token = loadSpotifyToken();
   const port = getCallbackPort();
 
+  // Tokens built from a bare refresh token (env secrets) have no scope yet.
+  if (token?.scope && !hasScopes(token.scope, getSpotifyCredentials().scopes)) {
+    console.log(
+      "Spotify token is missing permissions this version needs. Re-authenticating."
+    );
+    deleteSpotifyToken();
+    token = undefined;
+  }
+
   if (token) {
     if (token.expires_at && Date.now() >= token.expires_at) {
       if (token.refresh_token) {
@@ -225,30 +310,78 @@ export async function getSpotifyToken(): Promise<SpotifyToken> {
       "No valid Spotify token found. Starting authentication flow..."
     );
     const creds = getSpotifyCredentials();
-    if (
-      !creds.clientId ||
-      !creds.clientSecret ||
-      !creds.redirectUri ||
-      !creds.scopes
-    ) {
+    if (!hasSpotifyClientCredentials() || !creds.redirectUri || !creds.scopes) {
       throw new Error(
         "Spotify API credentials missing. Run configuration setup."
       );
     }
-    const code = await getSpotifyAuthorizationCode(port);
-    token = await exchangeSpotifyCodeForToken(code);
+    const pkce = creds.usePkce ? createPkcePair() : undefined;
+    const code = await getSpotifyAuthorizationCode(port, mode, pkce);
+    token = await exchangeSpotifyCodeForToken(code, pkce?.verifier);
     saveSpotifyToken(token);
   }
 
   return token;
 }
 
+// Refresh a little before the real expiry so in-flight requests don't race it.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
 export function createSpotifyClient(token: SpotifyToken): AxiosInstance {
-  const client = axios.create({
+  let currentToken = token;
+  let pendingRefresh: Promise<SpotifyToken> | null = null;
+
+  const refresh = (): Promise<SpotifyToken> => {
+    if (!currentToken.refresh_token) {
+      return Promise.reject(
+        new Error("Spotify token expired and no refresh token is available.")
+      );
+    }
+    if (!pendingRefresh) {
+      pendingRefresh = refreshSpotifyToken(currentToken.refresh_token)
+        .then((refreshed) => {
+          saveSpotifyToken(refreshed);
+          currentToken = refreshed;
+          return refreshed;
+        })
+        .finally(() => {
+          pendingRefresh = null;
+        });
+    }
+    return pendingRefresh;
+  };
+
+  const client = createHttpClient({
     baseURL: "https://api.spotify.com/v1",
-    headers: {
-      Authorization: `Bearer ${token.access_token}`,
+  });
+
+  client.interceptors.request.use(
+    async (config) => {
+      if (
+        currentToken.expires_at &&
+        Date.now() >= currentToken.expires_at - TOKEN_REFRESH_MARGIN_MS
+      ) {
+        await refresh();
+      }
+      config.headers.Authorization = `Bearer ${currentToken.access_token}`;
+      return config;
     },
+    (error: Error) => {
+      return Promise.reject(error);
+    }
+  );
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as
+      | (InternalAxiosRequestConfig & { authRetried?: boolean })
+      | undefined;
+    if (error.response?.status !== 401 || !config || config.authRetried) {
+      return Promise.reject(error);
+    }
+    console.log("Spotify rejected the access token, refreshing...");
+    config.authRetried = true;
+    await refresh();
+    return client.request(config);
   });
 
   return client;
@@ -348,3 +481,420 @@ export async function getPlaylistTracksSpotify(
     throw new Error(`Could not fetch tracks for playlist ${playlistId}.`);
   }
 }
+
+async function getAllPagesSpotify<T>(
+  client: AxiosInstance,
+  firstPageUrl: string
+): Promise<{ items: T[]; total: number }> {
+  let items: T[] = [];
+  let total = 0;
+  let url: string | null = firstPageUrl;
+  while (url) {
+    const response: {
+      data: { items: T[]; next: string | null; total: number };
+    } = await client.get(url);
+    items = items.concat(response.data.items);
+    total = response.data.total;
+    url = response.data.next;
+    if (url) {
+      url = url.replace(client.defaults.baseURL!, "");
+    }
+  }
+  return { items, total };
+}
+
+export async function getLikedTracksSpotify(
+  client: AxiosInstance
+): Promise<SpotifyTrack[]> {
+  console.log("Fetching your Liked Songs...");
+  try {
+    const { items } = await getAllPagesSpotify<SpotifyTrack>(
+      client,
+      "/me/tracks?limit=50"
+    );
+    const tracks = items.filter((item) => item.track !== null);
+    console.log(`Found ${tracks.length} valid tracks.`);
+    return tracks;
+  } catch (error: any) {
+    console.error(
+      "Error fetching Spotify Liked Songs:",
+      error.response?.data ?? error.message
+    );
+    throw new Error("Could not fetch Spotify Liked Songs.");
+  }
+}
+
+export async function getLikedTracksCountSpotify(
+  client: AxiosInstance
+): Promise<number> {
+  const response = await client.get<{ total: number }>("/me/tracks?limit=1");
+  return response.data.total;
+}
+
+export async function getSavedAlbumsSpotify(
+  client: AxiosInstance
+): Promise<SpotifyAlbum[]> {
+  console.log("Fetching your saved Spotify albums...");
+  try {
+    const { items } = await getAllPagesSpotify<{ album: SpotifyAlbum }>(
+      client,
+      "/me/albums?limit=50"
+    );
+    console.log(`Found ${items.length} albums.`);
+    return items.map((item) => item.album);
+  } catch (error: any) {
+    console.error(
+      "Error fetching saved Spotify albums:",
+      error.response?.data ?? error.message
+    );
+    throw new Error("Could not fetch saved Spotify albums.");
+  }
+}
+
+export async function getAlbumTracksSpotify(
+  client: AxiosInstance,
+  albumId: string
+): Promise<SpotifyTrack[]> {
+  console.log(`Fetching tracks for album ID: ${albumId}...`);
+  try {
+    const album = await client.get<{ name: string }>(`/albums/${albumId}`);
+    const { items } = await getAllPagesSpotify<
+      Omit<NonNullable<SpotifyTrack["track"]>, "album">
+    >(client, `/albums/${albumId}/tracks?limit=50`);
+    console.log(`Found ${items.length} tracks.`);
+    return items.map((track) => ({
+      track: { ...track, album: { name: album.data.name } },
+    }));
+  } catch (error: any) {
+    console.error(
+      `Error fetching tracks for album ${albumId}:`,
+      error.response?.data ?? error.message
+    );
+    throw new Error(`Could not fetch tracks for album ${albumId}.`);
+  }
+}
+
+export async function getFollowedArtistsSpotify(
+  client: AxiosInstance
+): Promise<SpotifyArtist[]> {
+  let artists: SpotifyArtist[] = [];
+  let url: string | null = "/me/following?type=artist&limit=50";
+
+  console.log("Fetching your followed Spotify artists...");
+  try {
+    while (url) {
+      const response: {
+        data: { artists: { items: SpotifyArtist[]; next: string | null } };
+      } = await client.get(url);
+      artists = artists.concat(response.data.artists.items);
+      url = response.data.artists.next;
+      if (url) {
+        url = url.replace(client.defaults.baseURL!, "");
+      }
+    }
+    console.log(`Found ${artists.length} followed artists.`);
+    return artists;
+  } catch (error: any) {
+    console.error(
+      "Error fetching followed Spotify artists:",
+      error.response?.data ?? error.message
+    );
+    throw new Error("Could not fetch followed Spotify artists.");
+  }
+}
+
+export async function getArtistTopTracksSpotify(
+  client: AxiosInstance,
+  artistId: string
+): Promise<SpotifyTrack[]> {
+  try {
+    const response = await client.get<{
+      tracks: NonNullable<SpotifyTrack["track"]>[];
+    }>(`/artists/${artistId}/top-tracks`, {
+      params: { market: "from_token" },
+    });
+    return response.data.tracks.map((track) => ({ track }));
+  } catch (error: any) {
+    console.error(
+      `Error fetching top tracks for artist ${artistId}:`,
+      error.response?.data ?? error.message
+    );
+    throw new Error(`Could not fetch top tracks for artist ${artistId}.`);
+  }
+}
+
+export async function createSpotifyPlaylist(
+  client: AxiosInstance,
+  userId: string,
+  name: string,
+  description: string,
+  privacy: PlaylistPrivacy = "private"
+): Promise<string | null> {
+  console.log(`Creating Spotify playlist: "${name}"`);
+  try {
+    const response = await client.post<{ id: string }>(
+      `/users/${userId}/playlists`,
+      {
+        name: name,
+        description: description,
+        public: privacy === "public",
+      }
+    );
+    const playlistId = response.data.id;
+    console.log(`  Created playlist with ID: ${playlistId}`);
+    return playlistId;
+  } catch (error: any) {
+    console.error(
+      `Error creating Spotify playlist "${name}":`,
+      error.response?.data?.error?.message ?? error.message
+    );
+    return null;
+  }
+}
+
+export async function searchSpotifyTracks(
+  client: AxiosInstance,
+  trackName: string,
+  artistName: string
+): Promise<SpotifySearchTrack[]> {
+  const queries = artistName
+    ? [`track:${trackName} artist:${artistName}`, `${trackName} ${artistName}`]
+    : [trackName];
+  try {
+    for (const query of queries) {
+      console.log(`Searching Spotify for: "${query}"`);
+      const response = await client.get<{
+        tracks: { items: SpotifySearchTrack[] };
+      }>("/search", {
+        params: {
+          q: query,
+          type: "track",
+          limit: 5,
+        },
+      });
+      if (response.data.tracks.items.length > 0) {
+        return response.data.tracks.items;
+      }
+    }
+    console.log(`  No track found for "${trackName}".`);
+    return [];
+  } catch (error: any) {
+    console.error(
+      `Error searching Spotify for "${trackName}":`,
+      error.response?.data?.error?.message ?? error.message
+    );
+    return [];
+  }
+}
+
+const SPOTIFY_ADD_BATCH_SIZE = 100;
+
+export async function addTracksToSpotifyPlaylist(
+  client: AxiosInstance,
+  playlistId: string,
+  trackUris: string[],
+  position?: number
+): Promise<AddItemResult[]> {
+  const results: AddItemResult[] = [];
+  let added = 0;
+  for (let i = 0; i < trackUris.length; i += SPOTIFY_ADD_BATCH_SIZE) {
+    const batch = trackUris.slice(i, i + SPOTIFY_ADD_BATCH_SIZE);
+    try {
+      await client.post(`/playlists/${playlistId}/tracks`, {
+        uris: batch,
+        position: position === undefined ? undefined : position + added,
+      });
+      added += batch.length;
+      results.push(...batch.map(() => ({ added: true })));
+    } catch (error: any) {
+      const message = error.response?.data?.error?.message ?? error.message;
+      console.error(
+        `Error adding ${batch.length} tracks to Spotify playlist ${playlistId}:`,
+        message
+      );
+      results.push(...batch.map(() => ({ added: false, error: message })));
+    }
+  }
+  return results;
+}
+
+function toTrack(track: NonNullable<SpotifyTrack["track"]>): Track {
+  return {
+    id: track.id ?? null,
+    name: track.name,
+    artists: track.artists.map((a) => a.name),
+    album: track.album?.name,
+    durationMs: track.duration_ms,
+  };
+}
+
+export const LIKED_SONGS_ID = "liked";
+export const FOLLOWED_ARTISTS_ID = "followed-artists";
+const ALBUM_ID_PREFIX = "album:";
+const TOP_TRACKS_PER_ARTIST = 5;
+
+/**
+ * Liked Songs, saved albums and followed artists' top tracks are not
+ * playlists on Spotify, so they are exposed under pseudo-IDs ("liked",
+ * "followed-artists", "album:<albumId>") that can be selected like one.
+ */
+async function listLibrarySources(client: AxiosInstance): Promise<Playlist[]> {
+  const [likedCount, albums, artists] = await Promise.all([
+    getLikedTracksCountSpotify(client),
+    getSavedAlbumsSpotify(client),
+    getFollowedArtistsSpotify(client),
+  ]);
+  return [
+    {
+      id: LIKED_SONGS_ID,
+      name: "Liked Songs",
+      description: "Liked Songs from Spotify",
+      url: "https://open.spotify.com/collection/tracks",
+      trackCount: likedCount,
+      isLibrary: true,
+    },
+    {
+      id: FOLLOWED_ARTISTS_ID,
+      name: "Top tracks of followed artists",
+      description: `Top ${TOP_TRACKS_PER_ARTIST} tracks of each artist followed on Spotify`,
+      trackCount: artists.length * TOP_TRACKS_PER_ARTIST,
+      isLibrary: true,
+    },
+    ...albums.map((album) => ({
+      id: `${ALBUM_ID_PREFIX}${album.id}`,
+      name: `${album.artists.map((a) => a.name).join(", ")} - ${album.name}`,
+      description: `Album "${album.name}" saved on Spotify`,
+      url: `https://open.spotify.com/album/${album.id}`,
+      trackCount: album.total_tracks,
+      isLibrary: true,
+    })),
+  ];
+}
+
+async function getLibrarySourceTracks(
+  client: AxiosInstance,
+  playlistId: string
+): Promise<SpotifyTrack[]> {
+  if (playlistId === LIKED_SONGS_ID) {
+    return getLikedTracksSpotify(client);
+  }
+  if (playlistId === FOLLOWED_ARTISTS_ID) {
+    const artists = await getFollowedArtistsSpotify(client);
+    let tracks: SpotifyTrack[] = [];
+    for (const artist of artists) {
+      console.log(`Fetching top tracks for ${artist.name}...`);
+      const topTracks = await getArtistTopTracksSpotify(client, artist.id);
+      tracks = tracks.concat(topTracks.slice(0, TOP_TRACKS_PER_ARTIST));
+    }
+    return tracks;
+  }
+  if (playlistId.startsWith(ALBUM_ID_PREFIX)) {
+    return getAlbumTracksSpotify(
+      client,
+      playlistId.slice(ALBUM_ID_PREFIX.length)
+    );
+  }
+  return getPlaylistTracksSpotify(client, playlistId);
+}
+
+export function createSpotifyProvider(
+  client: AxiosInstance
+): SourceProvider & DestinationProvider {
+  let userId: string | null = null;
+  const currentUserId = async (): Promise<string> => {
+    if (!userId) {
+      userId = (await getCurrentUserSpotify(client)).id;
+    }
+    return userId;
+  };
+
+  return {
+    name: "Spotify",
+    addBatchSize: SPOTIFY_ADD_BATCH_SIZE,
+
+    async listPlaylists(): Promise<Playlist[]> {
+      const playlists = await getUserPlaylistsSpotify(
+        client,
+        await currentUserId()
+      );
+      return [
+        ...playlists.map((p) => ({
+          id: p.id,
+          name: p.name,
+          description: p.description,
+          owner: p.owner.display_name,
+          url: `https://open.spotify.com/playlist/${p.id}`,
+          trackCount: p.tracks.total,
+        })),
+        ...(await listLibrarySources(client)),
+      ];
+    },
+
+    async getTracks(playlistId: string): Promise<Track[]> {
+      const items = await getLibrarySourceTracks(client, playlistId);
+      return items.flatMap((item) => (item.track ? [toTrack(item.track)] : []));
+    },
+
+    async createPlaylist(
+      name: string,
+      description: string,
+      privacy?: PlaylistPrivacy
+    ) {
+      return createSpotifyPlaylist(
+        client,
+        await currentUserId(),
+        name,
+        description,
+        privacy
+      );
+    },
+
+    async search(track: Track, query?: string): Promise<MatchResult | null> {
+      const results = query
+        ? await searchSpotifyTracks(client, query, "")
+        : await searchSpotifyTracks(client, track.name, track.artists[0] ?? "");
+      const ranked = rankTrackCandidates(
+        track,
+        results.map((result) => ({
+          uri: result.uri,
+          spotifyId: result.id,
+          name: result.name,
+          artists: result.artists.map((a) => a.name),
+          durationMs: result.duration_ms,
+        }))
+      ).map((candidate) => ({
+        id: candidate.uri,
+        title: candidate.name,
+        subtitle: candidate.artists.join(", "),
+        url: `https://open.spotify.com/track/${candidate.spotifyId}`,
+        score: candidate.score,
+      }));
+      if (ranked.length === 0) return null;
+      return {
+        best: ranked[0],
+        alternatives: ranked.slice(1),
+        fromCache: false,
+      };
+    },
+
+    addItems(
+      playlistId: string,
+      itemIds: string[],
+      position?: number
+    ): Promise<AddItemResult[]> {
+      return addTracksToSpotifyPlaylist(client, playlistId, itemIds, position);
+    },
+
+    playlistUrl(playlistId: string): string {
+      return `https://open.spotify.com/playlist/${playlistId}`;
+    },
+
+    parsePlaylistUrl(input: string): string | null {
+      const match =
+        /^(?:https?:\/\/open\.spotify\.com\/(?:[\w-]+\/)?playlist\/|spotify:playlist:)([A-Za-z0-9]+)/.exec(
+          input.trim()
+        );
+      return match ? match[1] : null;
+    },
+  };
+}
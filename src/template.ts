@@ -0,0 +1,48 @@
+import { Playlist } from "./provider.js";
+
+export const DEFAULT_TITLE_TEMPLATE = "{name}";
+export const DEFAULT_DESCRIPTION_TEMPLATE = "{description}";
+
+const TEMPLATE_FIELDS = [
+  "name",
+  "owner",
+  "description",
+  "url",
+  "trackCount",
+  "source",
+  "date",
+];
+
+/** The supported placeholders, for help texts. */
+export const TEMPLATE_PLACEHOLDERS = TEMPLATE_FIELDS.map(
+  (field) => `{${field}}`
+).join(" ");
+
+/**
+ * Fills {field} placeholders with details of the source playlist. Unknown
+ * placeholders are kept as they are; missing details become empty.
+ */
+export function renderPlaylistTemplate(
+  template: string,
+  playlist: Playlist,
+  sourceName: string,
+  date = new Date()
+): string {
+  const values: Record<string, string> = {
+    name: playlist.name,
+    owner: playlist.owner ?? "",
+    description: playlist.description ?? "",
+    url: playlist.url ?? "",
+    trackCount: String(playlist.trackCount),
+    source: sourceName,
+    date: date.toLocaleDateString("en-CA"),
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, field: string) =>
+      // Own keys only: {constructor} or {toString} are left as they are.
+      Object.prototype.hasOwnProperty.call(values, field)
+        ? values[field]
+        : placeholder
+    )
+    .trim();
+}
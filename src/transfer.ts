@@ -1,121 +1,970 @@
-import { AxiosInstance } from "axios";
 import chalk from "chalk";
 import {
-  SpotifyPlaylist,
-  getPlaylistTracksSpotify,
-  SpotifyTrack,
-} from "./spotify.js";
+  Track,
+  Playlist,
+  MatchResult,
+  AddItemResult,
+  PlaylistEntry,
+  PlaylistPrivacy,
+  SourceProvider,
+  DestinationProvider,
+} from "./provider.js";
+import { LOW_CONFIDENCE_THRESHOLD } from "./matcher.js";
+import { QuotaExceededError } from "./quota.js";
 import {
-  searchYouTubeVideo,
-  createYouTubePlaylist,
-  addVideoToYouTubePlaylist,
-} from "./youtube.js";
+  MatchStatus,
+  PlaylistMatchReport,
+  PlaylistTransferResult,
+  TrackTransferResult,
+} from "./report.js";
+import { needsReview, reviewMatch } from "./review.js";
+import { Limiter, createLimiter } from "./concurrency.js";
+import { PlaylistLayout, insertPosition, planReorder } from "./order.js";
+import {
+  DEFAULT_TITLE_TEMPLATE,
+  DEFAULT_DESCRIPTION_TEMPLATE,
+  renderPlaylistTemplate,
+} from "./template.js";
+import {
+  PlaylistJournal,
+  loadPlaylistJournal,
+  startPlaylistJournal,
+  recordTrackOutcome,
+  markPlaylistJournalCompleted,
+  journalTrackKeys,
+  migrateLegacyTrackKeys,
+  forgetTrackOutcome,
+} from "./journal.js";
+
+export const DEFAULT_SEARCH_CONCURRENCY = 4;
+
+/**
+ * What a transfer does when the destination already has a playlist with the
+ * target title (or ID): create another one anyway, add the missing tracks to
+ * it, leave it alone, or empty it and fill it again.
+ */
+export type ExistingPlaylistPolicy = "create" | "merge" | "skip" | "replace";
+
+export const EXISTING_PLAYLIST_POLICIES: ExistingPlaylistPolicy[] = [
+  "create",
+  "merge",
+  "skip",
+  "replace",
+];
+
+export interface TransferOptions {
+  resume?: boolean;
+  /** Ask the user about low-confidence and missing matches. */
+  review?: boolean;
+  /**
+   * Bounds the searches running at the same time. Pass the same limiter to
+   * playlists transferred in parallel to bound them all together.
+   */
+  searchLimiter?: Limiter;
+  /** For playlists the transfer creates. */
+  privacy?: PlaylistPrivacy;
+  titleTemplate?: string;
+  descriptionTemplate?: string;
+  /** ID or title of the destination playlist, instead of the rendered title. */
+  target?: string;
+  /** Defaults to merge with a target and to create without one. */
+  onExisting?: ExistingPlaylistPolicy;
+}
 
 export async function transferPlaylist(
-  spotifyClient: AxiosInstance,
-  youtubeClient: AxiosInstance,
-  spotifyPlaylist: SpotifyPlaylist
-): Promise<void> {
+  source: SourceProvider,
+  destination: DestinationProvider,
+  playlist: Playlist,
+  options: TransferOptions = {}
+): Promise<PlaylistTransferResult> {
   console.log(
     chalk.magenta(
-      `\nProcessing Spotify Playlist: "${spotifyPlaylist.name}" (ID: ${spotifyPlaylist.id})`
+      `\nProcessing ${source.name} Playlist: "${playlist.name}" (ID: ${playlist.id})`
     )
   );
 
-  let spotifyTracks: SpotifyTrack[] = await getPlaylistTracksSpotify(
-      spotifyClient,
-      spotifyPlaylist.id
+  const result: PlaylistTransferResult = {
+    sourcePlaylistId: playlist.id,
+    name: playlist.name,
+    destinationPlaylistId: null,
+    status: "completed",
+    tracks: [],
+  };
+
+  let tracks: Track[];
+  try {
+    tracks = await source.getTracks(playlist.id);
+  } catch (error: any) {
+    const message = error.response?.data?.error?.message ?? error.message;
+    console.error(
+      chalk.red(
+        `  Could not read the tracks of "${playlist.name}": ${message}. Skipping this playlist.`
+      )
     );
+    const status =
+      error instanceof QuotaExceededError ? "interrupted" : "failed";
+    return { ...result, status, error: message };
+  }
 
-  if (spotifyTracks.length === 0) {
+  if (tracks.length === 0) {
     console.log(
       chalk.yellow(
-        `  Playlist "${spotifyPlaylist.name}" is empty or has no accessible tracks. Skipping.`
+        `  Playlist "${playlist.name}" is empty or has no accessible tracks. Skipping.`
       )
     );
-    return;
+    return { ...result, status: "empty" };
   }
 
-  const newPlaylistTitle = `${spotifyPlaylist.name}`;
-  const newPlaylistDescription =
-    spotifyPlaylist.description ||
-    `Migrated from Spotify: ${spotifyPlaylist.name}`;
-  const youtubePlaylistId = await createYouTubePlaylist(
-    youtubeClient,
-    newPlaylistTitle,
-    newPlaylistDescription
-  );
+  const storedJournal = loadPlaylistJournal(playlist.id);
+  const previousJournal =
+    storedJournal && migrateLegacyTrackKeys(storedJournal, tracks);
+  let destinationPlaylistId: string | null = null;
+  let completedTracks: PlaylistJournal["tracks"] = {};
+  // Entries of an existing playlist the tracks are merged into.
+  let mergedEntries: PlaylistEntry[] | undefined;
 
-  if (!youtubePlaylistId) {
+  if (options.resume && previousJournal) {
+    destinationPlaylistId = previousJournal.destinationPlaylistId;
+    completedTracks = previousJournal.tracks;
+    console.log(
+      chalk.cyan(
+        `  Resuming into existing ${destination.name} playlist ${destinationPlaylistId} (${
+          Object.keys(completedTracks).length
+        } tracks already processed).`
+      )
+    );
+  } else {
+    if (options.resume) {
+      console.log(
+        chalk.yellow(
+          `  No previous transfer recorded for "${playlist.name}". Starting a new one.`
+        )
+      );
+    } else if (previousJournal && !previousJournal.completed) {
+      console.log(
+        chalk.yellow(
+          `  An unfinished transfer of this playlist exists (${destination.name} playlist ${previousJournal.destinationPlaylistId}). Use --resume to continue it instead.`
+        )
+      );
+    }
+
+    // Targets given as a link or "id:<ID>" must already exist; other targets
+    // are looked up by ID or title and created when missing.
+    const targetId = options.target
+      ? explicitPlaylistId(destination, options.target)
+      : null;
+    const newPlaylistTitle =
+      options.target ??
+      (renderPlaylistTemplate(
+        options.titleTemplate ?? DEFAULT_TITLE_TEMPLATE,
+        playlist,
+        source.name
+      ) ||
+        playlist.name);
+    const onExisting =
+      options.onExisting ?? (options.target ? "merge" : "create");
+
+    let existing: Playlist | null = null;
+    let existingEntries: PlaylistEntry[] = [];
+    try {
+      if (targetId) {
+        existing = await findDestinationPlaylist(destination, targetId, false);
+      } else if (onExisting !== "create") {
+        existing = await findDestinationPlaylist(destination, newPlaylistTitle);
+      }
+      if (existing && onExisting !== "skip" && destination.listItems) {
+        existingEntries = await destination.listItems(existing.id);
+      }
+    } catch (error: any) {
+      const status =
+        error instanceof QuotaExceededError ? "interrupted" : "failed";
+      return { ...result, status, error: error.message };
+    }
+
+    if (targetId && !existing) {
+      const error = `No ${destination.name} playlist with the ID ${targetId} was found.`;
+      console.error(chalk.red(`  ${error}`));
+      return { ...result, status: "failed", error };
+    }
+
+    if (existing && onExisting === "skip") {
+      console.log(
+        chalk.yellow(
+          `  ${destination.name} playlist "${existing.name}" (${existing.id}) already exists. Skipping.`
+        )
+      );
+      return {
+        ...result,
+        destinationPlaylistId: existing.id,
+        destinationUrl: destination.playlistUrl(existing.id),
+        status: "skipped",
+      };
+    }
+
+    if (existing && onExisting === "replace") {
+      console.log(
+        chalk.cyan(
+          `  Replacing the contents of existing ${destination.name} playlist "${existing.name}" (${existing.id}).`
+        )
+      );
+      const error = await clearPlaylist(
+        destination,
+        existing.id,
+        existingEntries
+      );
+      if (error) return { ...result, status: "failed", error };
+      destinationPlaylistId = existing.id;
+    } else if (existing) {
+      console.log(
+        chalk.cyan(
+          `  Merging into existing ${destination.name} playlist "${existing.name}" (${existing.id}).`
+        )
+      );
+      if (!destination.listItems) {
+        console.log(
+          chalk.yellow(
+            `  ${destination.name} playlists cannot be listed, so tracks already in it may be added again.`
+          )
+        );
+      }
+      destinationPlaylistId = existing.id;
+      mergedEntries = existingEntries;
+    } else {
+      const newPlaylistDescription =
+        renderPlaylistTemplate(
+          options.descriptionTemplate ?? DEFAULT_DESCRIPTION_TEMPLATE,
+          playlist,
+          source.name
+        ) || `Migrated from ${source.name}: ${playlist.name}`;
+      destinationPlaylistId = await destination.createPlaylist(
+        newPlaylistTitle,
+        newPlaylistDescription,
+        options.privacy
+      );
+    }
+
+    if (destinationPlaylistId) {
+      startPlaylistJournal(
+        playlist.id,
+        source.name,
+        destination.name,
+        playlist.name,
+        destinationPlaylistId
+      );
+    }
+  }
+
+  if (!destinationPlaylistId) {
     console.error(
       chalk.red(
-        `  Failed to create YouTube playlist for "${spotifyPlaylist.name}". Skipping this playlist.`
+        `  Failed to create ${destination.name} playlist for "${playlist.name}". Skipping this playlist.`
+      )
+    );
+    return {
+      ...result,
+      status: "failed",
+      error: `Could not create the ${destination.name} playlist.`,
+    };
+  }
+  result.destinationPlaylistId = destinationPlaylistId;
+  result.destinationUrl = destination.playlistUrl(destinationPlaylistId);
+
+  const counts = emptyCounts();
+  const pending: PendingTrack[] = [];
+  const trackKeys = journalTrackKeys(tracks);
+  tracks.forEach((track, index) => {
+    const key = trackKeys[index];
+    const previousOutcome = completedTracks[key];
+    if (previousOutcome && previousOutcome.status !== "failed") {
+      counts.skipped++;
+      result.tracks.push({
+        ...trackResult(track, index + 1),
+        status: previousOutcome.status,
+        itemId: previousOutcome.itemId,
+        score: previousOutcome.score,
+        fromEarlierRun: true,
+      });
+      return;
+    }
+    pending.push({
+      track,
+      key,
+      position: index + 1,
+      label: `[${index + 1}/${tracks.length}]`,
+    });
+  });
+
+  // Where new tracks are inserted depends on what the playlist holds. Earlier
+  // runs added their tracks in source order, which is assumed when the
+  // destination cannot list the playlist. Items already in a playlist merged
+  // into count as coming before every track, so new tracks are appended.
+  let layout: PlaylistLayout = mergedEntries
+    ? mergedEntries.map(() => 0)
+    : result.tracks
+        .filter((track) => track.status === "added")
+        .map((track) => track.position);
+  if (options.resume && previousJournal && destination.listItems) {
+    try {
+      layout = destinationLayout(
+        tracks,
+        previousJournal,
+        await destination.listItems(destinationPlaylistId)
+      );
+    } catch (error: any) {
+      const status =
+        error instanceof QuotaExceededError ? "interrupted" : "failed";
+      return { ...result, status, error: error.message };
+    }
+  }
+
+  console.log(`  Attempting to transfer ${pending.length} tracks...`);
+
+  try {
+    await transferTracks(
+      destination,
+      destinationPlaylistId,
+      playlist.id,
+      pending,
+      layout,
+      counts,
+      result.tracks,
+      options.searchLimiter ?? createLimiter(DEFAULT_SEARCH_CONCURRENCY),
+      options.review,
+      new Set(mergedEntries?.map((entry) => entry.itemId))
+    );
+  } catch (error) {
+    if (!(error instanceof QuotaExceededError)) throw error;
+    printSummary(playlist, destination, destinationPlaylistId, counts);
+    result.tracks.sort((a, b) => a.position - b.position);
+    return { ...result, status: "interrupted", error: error.message };
+  }
+
+  markPlaylistJournalCompleted(playlist.id);
+  printSummary(playlist, destination, destinationPlaylistId, counts);
+  result.tracks.sort((a, b) => a.position - b.position);
+  result.status = result.tracks.every((t) => t.status === "added")
+    ? "completed"
+    : "partial";
+  return result;
+}
+
+export async function previewPlaylist(
+  source: SourceProvider,
+  destination: DestinationProvider,
+  playlist: Playlist,
+  searchLimiter: Limiter = createLimiter(DEFAULT_SEARCH_CONCURRENCY)
+): Promise<PlaylistMatchReport> {
+  console.log(
+    chalk.magenta(
+      `\nDry run for ${source.name} Playlist: "${playlist.name}" (ID: ${playlist.id})`
+    )
+  );
+
+  const tracks = await source.getTracks(playlist.id);
+  const report: PlaylistMatchReport = {
+    sourcePlaylistId: playlist.id,
+    name: playlist.name,
+    tracks: [],
+  };
+
+  const matches = await Promise.all(
+    tracks.map((track) => searchLimiter(() => destination.search(track)))
+  );
+  tracks.forEach((track, i) => {
+    const match = matches[i];
+    let status: MatchStatus = "not_found";
+    if (match) {
+      status =
+        match.best.score < LOW_CONFIDENCE_THRESHOLD
+          ? "low_confidence"
+          : "matched";
+    }
+    report.tracks.push({
+      position: i + 1,
+      sourceTrackId: track.id,
+      name: track.name,
+      artists: track.artists,
+      durationMs: track.durationMs,
+      status,
+      chosen: match?.best,
+      alternatives: match?.alternatives ?? [],
+    });
+  });
+
+  return report;
+}
+
+export interface SyncOptions {
+  prune?: boolean;
+  searchLimiter?: Limiter;
+}
+
+export async function syncPlaylist(
+  source: SourceProvider,
+  destination: DestinationProvider,
+  playlist: Playlist,
+  options: SyncOptions = {}
+): Promise<void> {
+  console.log(
+    chalk.magenta(
+      `\nSyncing ${source.name} Playlist: "${playlist.name}" (ID: ${playlist.id})`
+    )
+  );
+
+  if (!destination.listItems) {
+    console.log(
+      chalk.yellow(
+        `  Syncing into ${destination.name} playlists is not supported. Skipping.`
       )
     );
     return;
   }
 
-  let addedCount = 0;
-  let notFoundCount = 0;
-  let failedCount = 0;
-  console.log(`  Attempting to transfer ${spotifyTracks.length} tracks...`);
+  const storedJournal = loadPlaylistJournal(playlist.id);
+  if (!storedJournal) {
+    console.log(
+      chalk.yellow(
+        `  "${playlist.name}" has not been transferred yet. Use "transfer" first. Skipping.`
+      )
+    );
+    return;
+  }
+  const destinationPlaylistId = storedJournal.destinationPlaylistId;
 
-  for (let i = 0; i < spotifyTracks.length; i++) {
-    const item = spotifyTracks[i];
-    if (!item?.track) continue;
+  const tracks = await source.getTracks(playlist.id);
+  const playlistJournal = migrateLegacyTrackKeys(storedJournal, tracks);
+  const entries = await destination.listItems(destinationPlaylistId);
+  const presentItemIds = new Set(entries.map((entry) => entry.itemId));
 
-    const track = item.track;
-    const artistNames = track.artists.map((a) => a.name).join(", ");
-    const searchLog = `[${i + 1}/${spotifyTracks.length}] "${
-      track.name
-    }" by ${artistNames}`;
+  const counts = emptyCounts();
+  const currentTrackKeys = new Set<string>();
+  const candidates: { track: Track; key: string; position: number }[] = [];
 
-    await new Promise((resolve) => setTimeout(resolve, 300));
+  const trackKeys = journalTrackKeys(tracks);
+  tracks.forEach((track, index) => {
+    const key = trackKeys[index];
+    currentTrackKeys.add(key);
+    const outcome = playlistJournal.tracks[key];
+    if (
+      outcome?.status === "not_found" ||
+      (outcome?.itemId && presentItemIds.has(outcome.itemId))
+    ) {
+      counts.skipped++;
+    } else {
+      candidates.push({ track, key, position: index + 1 });
+    }
+  });
+  const missing: PendingTrack[] = candidates.map((candidate, i) => ({
+    ...candidate,
+    label: `[${i + 1}/${candidates.length}]`,
+  }));
 
-    const youtubeVideo = await searchYouTubeVideo(
-      youtubeClient,
-      track.name,
-      artistNames
+  console.log(
+    `  ${missing.length} of ${tracks.length} tracks are missing from the ${destination.name} playlist.`
+  );
+  try {
+    await transferTracks(
+      destination,
+      destinationPlaylistId,
+      playlist.id,
+      missing,
+      destinationLayout(tracks, playlistJournal, entries),
+      counts,
+      [],
+      options.searchLimiter ?? createLimiter(DEFAULT_SEARCH_CONCURRENCY)
     );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      printSummary(playlist, destination, destinationPlaylistId, counts);
+    }
+    throw error;
+  }
 
-    if (youtubeVideo?.id?.videoId) {
-      const success = await addVideoToYouTubePlaylist(
-        youtubeClient,
-        youtubePlaylistId,
-        youtubeVideo.id.videoId
-      );
-      if (success) {
-        addedCount++;
-        console.log(
-          chalk.gray(
-            `    ${searchLog} -> Added: "${youtubeVideo.snippet.title}"`
-          )
-        );
-      } else {
-        failedCount++;
-        console.log(
-          chalk.yellow(`    ${searchLog} -> Found, but failed to add.`)
+  if (options.prune && destination.removeItem) {
+    const updatedJournal = loadPlaylistJournal(playlist.id)!;
+    const keptItemIds = new Set(
+      Object.entries(updatedJournal.tracks)
+        .filter(([key]) => currentTrackKeys.has(key))
+        .map(([, outcome]) => outcome.itemId)
+    );
+    for (const [key, outcome] of Object.entries(updatedJournal.tracks)) {
+      if (currentTrackKeys.has(key)) continue;
+      // Kept in the journal until its items are gone, so a later --prune
+      // can retry removals that failed.
+      let removedAll = true;
+      if (outcome.itemId && !keptItemIds.has(outcome.itemId)) {
+        const staleEntries = entries.filter(
+          (entry) => entry.itemId === outcome.itemId
         );
+        for (const entry of staleEntries) {
+          if (
+            await destination.removeItem(destinationPlaylistId, entry.entryId)
+          ) {
+            counts.removed++;
+            console.log(chalk.gray(`    Removed: "${entry.title}"`));
+          } else {
+            removedAll = false;
+            console.log(chalk.yellow(`    Could not remove: "${entry.title}"`));
+          }
+        }
       }
-    } else {
-      notFoundCount++;
-      console.log(chalk.yellow(`    ${searchLog} -> Not found.`));
+      if (removedAll) forgetTrackOutcome(playlist.id, key);
     }
   }
 
+  markPlaylistJournalCompleted(playlist.id);
+  printSummary(playlist, destination, destinationPlaylistId, counts);
+}
+
+/**
+ * Puts the items of a transferred playlist back into the order of the source
+ * playlist, moving as few of them as possible. Items the journal cannot tie
+ * to a source track stay where they are.
+ */
+export async function reorderPlaylist(
+  source: SourceProvider,
+  destination: DestinationProvider,
+  playlist: Playlist
+): Promise<void> {
   console.log(
-    chalk.magenta(`\nFinished processing "${spotifyPlaylist.name}".`)
+    chalk.magenta(
+      `\nReordering ${source.name} Playlist: "${playlist.name}" (ID: ${playlist.id})`
+    )
+  );
+
+  if (!destination.listItems || !destination.moveItem) {
+    console.log(
+      chalk.yellow(
+        `  Reordering ${destination.name} playlists is not supported. Skipping.`
+      )
+    );
+    return;
+  }
+
+  const storedJournal = loadPlaylistJournal(playlist.id);
+  if (!storedJournal) {
+    console.log(
+      chalk.yellow(
+        `  "${playlist.name}" has not been transferred yet. Use "transfer" first. Skipping.`
+      )
+    );
+    return;
+  }
+  const destinationPlaylistId = storedJournal.destinationPlaylistId;
+
+  const tracks = await source.getTracks(playlist.id);
+  const playlistJournal = migrateLegacyTrackKeys(storedJournal, tracks);
+  const entries = await destination.listItems(destinationPlaylistId);
+  const moves = planReorder(
+    destinationLayout(tracks, playlistJournal, entries)
   );
-  console.log(chalk.green(`  Successfully added: ${addedCount} tracks`));
-  console.log(chalk.yellow(`  Could not find: ${notFoundCount} tracks`));
-  if (failedCount > 0) {
+
+  if (moves.length === 0) {
+    console.log(chalk.green("  Already in the source order."));
+    return;
+  }
+  console.log(`  Moving ${moves.length} of ${entries.length} items...`);
+
+  let moved = 0;
+  for (const move of moves) {
+    const entry = entries[move.entryIndex];
+    // Later moves assume the earlier ones happened, so stop at a failure.
+    if (
+      !(await destination.moveItem(
+        destinationPlaylistId,
+        entry,
+        move.position
+      ))
+    ) {
+      console.log(
+        chalk.red(
+          `  Could not move "${entry.title}". Stopped after ${moved} of ${moves.length} moves; run "reorder" again to retry.`
+        )
+      );
+      return;
+    }
+    moved++;
+    console.log(
+      chalk.gray(`    Moved "${entry.title}" to position ${move.position + 1}`)
+    );
+  }
+  console.log(
+    chalk.cyan(
+      `  Check the ${destination.name} playlist: ${destination.playlistUrl(
+        destinationPlaylistId
+      )}`
+    )
+  );
+}
+
+/**
+ * Finds the user's destination playlist with this ID or, failing that, this
+ * title (ignoring case). Returns null when there is none.
+ */
+/** The ID of an "id:<ID>" target or of a playlist link, otherwise null. */
+function explicitPlaylistId(
+  destination: DestinationProvider,
+  target: string
+): string | null {
+  const prefixed = /^id:\s*(\S+)$/i.exec(target.trim());
+  if (prefixed) return prefixed[1];
+  return destination.parsePlaylistUrl?.(target) ?? null;
+}
+
+async function findDestinationPlaylist(
+  destination: DestinationProvider,
+  idOrTitle: string,
+  matchTitle = true
+): Promise<Playlist | null> {
+  if (!destination.listPlaylists) return null;
+  const playlists = (await destination.listPlaylists()).filter(
+    (p) => !p.isLibrary
+  );
+  const byId = playlists.find((p) => p.id === idOrTitle);
+  if (byId || !matchTitle) return byId ?? null;
+
+  const title = idOrTitle.trim().toLowerCase();
+  const byTitle = playlists.filter(
+    (p) => p.name.trim().toLowerCase() === title
+  );
+  if (byTitle.length > 1) {
+    console.log(
+      chalk.yellow(
+        `  ${byTitle.length} ${destination.name} playlists are called "${idOrTitle}"; using ${byTitle[0].id}.`
+      )
+    );
+  }
+  return byTitle[0] ?? null;
+}
+
+/** Removes all entries from a playlist. Returns an error message on failure. */
+async function clearPlaylist(
+  destination: DestinationProvider,
+  playlistId: string,
+  entries: PlaylistEntry[]
+): Promise<string | undefined> {
+  if (!destination.listItems || !destination.removeItem) {
+    return `Replacing the contents of ${destination.name} playlists is not supported.`;
+  }
+  console.log(`  Removing ${entries.length} items...`);
+  let failed = 0;
+  for (const entry of entries) {
+    if (!(await destination.removeItem(playlistId, entry.entryId))) failed++;
+  }
+  return failed > 0
+    ? `Could not remove ${failed} of ${entries.length} items from the existing playlist.`
+    : undefined;
+}
+
+/**
+ * Maps the entries of a transferred playlist to the source tracks the
+ * journal recorded for their items.
+ */
+function destinationLayout(
+  tracks: Track[],
+  playlistJournal: PlaylistJournal,
+  entries: PlaylistEntry[]
+): PlaylistLayout {
+  const positionsByItem = new Map<string, number[]>();
+  journalTrackKeys(tracks).forEach((key, index) => {
+    const itemId = playlistJournal.tracks[key]?.itemId;
+    if (!itemId) return;
+    positionsByItem.set(itemId, [
+      ...(positionsByItem.get(itemId) ?? []),
+      index + 1,
+    ]);
+  });
+  // An item used by several tracks is matched to them in playlist order.
+  return entries.map(
+    (entry) => positionsByItem.get(entry.itemId)?.shift() ?? null
+  );
+}
+
+interface PendingTrack {
+  track: Track;
+  key: string;
+  position: number;
+  label: string;
+}
+
+interface TransferCounts {
+  added: number;
+  notFound: number;
+  failed: number;
+  lowConfidence: number;
+  skipped: number;
+  alreadyPresent: number;
+  removed: number;
+}
+
+function emptyCounts(): TransferCounts {
+  return {
+    added: 0,
+    notFound: 0,
+    failed: 0,
+    lowConfidence: 0,
+    skipped: 0,
+    alreadyPresent: 0,
+    removed: 0,
+  };
+}
+
+function trackResult(
+  track: Track,
+  position: number
+): Omit<TrackTransferResult, "status"> {
+  return {
+    position,
+    sourceTrackId: track.id,
+    name: track.name,
+    artists: track.artists,
+  };
+}
+
+function describeTrack(pending: PendingTrack): string {
+  return `${pending.label} "${pending.track.name}" by ${pending.track.artists.join(
+    ", "
+  )}`;
+}
+
+/**
+ * Searches the pending tracks ahead of time, as many at once as the limiter
+ * allows, while the matches are reviewed and added in playlist order, in
+ * chunks of the destination's batch size so services with bulk inserts use
+ * them. When reviewing, all searches finish before the first prompt. Every
+ * processed track is counted and appended to trackResults.
+ */
+async function transferTracks(
+  destination: DestinationProvider,
+  destinationPlaylistId: string,
+  sourcePlaylistId: string,
+  pending: PendingTrack[],
+  layout: PlaylistLayout,
+  counts: TransferCounts,
+  trackResults: TrackTransferResult[],
+  searchLimiter: Limiter,
+  review = false,
+  presentItemIds = new Set<string>()
+): Promise<void> {
+  let stopped = false;
+  const searches = pending.map((item) =>
+    searchLimiter(() =>
+      stopped ? Promise.resolve(null) : destination.search(item.track)
+    )
+  );
+  // Errors are rethrown below in playlist order; searches after the first
+  // failure are never awaited and must not surface as unhandled rejections.
+  searches.forEach((search) => search.catch(() => undefined));
+  // Search progress messages would garble the review prompts.
+  if (review) await Promise.allSettled(searches);
+
+  try {
+    const batchSize = Math.max(1, destination.addBatchSize);
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const matched: { pending: PendingTrack; match: MatchResult }[] = [];
+
+      const end = Math.min(start + batchSize, pending.length);
+      for (let i = start; i < end; i++) {
+        const item = pending[i];
+        let match = await searches[i];
+        const skippedEarlier = !match && destination.wasSkipped?.(item.track);
+        if (review && needsReview(match) && !skippedEarlier) {
+          match = await reviewMatch(
+            destination,
+            item.track,
+            match,
+            describeTrack(item)
+          );
+        }
+        if (match && presentItemIds.has(match.best.id)) {
+          recordTrackOutcome(sourcePlaylistId, item.key, {
+            status: "added",
+            itemId: match.best.id,
+            score: match.best.score,
+          });
+          counts.alreadyPresent++;
+          trackResults.push({
+            ...trackResult(item.track, item.position),
+            status: "added",
+            itemId: match.best.id,
+            score: match.best.score,
+            alreadyPresent: true,
+          });
+          console.log(
+            chalk.gray(
+              `    ${describeTrack(item)} -> Already in the playlist: "${
+                match.best.title
+              }"`
+            )
+          );
+        } else if (match) {
+          matched.push({ pending: item, match });
+        } else {
+          recordTrackOutcome(sourcePlaylistId, item.key, {
+            status: "not_found",
+          });
+          counts.notFound++;
+          trackResults.push({
+            ...trackResult(item.track, item.position),
+            status: "not_found",
+            error: skippedEarlier
+              ? "Skipped during review."
+              : `No match found on ${destination.name}.`,
+          });
+          console.log(
+            chalk.yellow(
+              `    ${describeTrack(item)} -> ${
+                skippedEarlier
+                  ? "Skipped during an earlier review."
+                  : "Not found."
+              }`
+            )
+          );
+        }
+      }
+
+      if (matched.length === 0) continue;
+      const results = await addInSourceOrder(
+        destination,
+        destinationPlaylistId,
+        layout,
+        matched.map(({ pending: item, match }) => ({
+          sourcePosition: item.position,
+          itemId: match.best.id,
+        }))
+      );
+
+      matched.forEach(({ pending: item, match }, i) => {
+        const success = results[i]?.added ?? false;
+        recordTrackOutcome(sourcePlaylistId, item.key, {
+          status: success ? "added" : "failed",
+          itemId: match.best.id,
+          score: match.best.score,
+        });
+        trackResults.push({
+          ...trackResult(item.track, item.position),
+          status: success ? "added" : "failed",
+          itemId: match.best.id,
+          score: match.best.score,
+          error: success
+            ? undefined
+            : results[i]?.error ?? "The destination did not accept the item.",
+        });
+        if (success) {
+          counts.added++;
+          console.log(
+            chalk.gray(
+              `    ${describeTrack(item)} -> Added: "${
+                match.best.title
+              }" (confidence: ${match.best.score}${
+                match.fromCache ? ", cached" : ""
+              })`
+            )
+          );
+        } else {
+          counts.failed++;
+          console.log(
+            chalk.yellow(
+              `    ${describeTrack(item)} -> Found, but failed to add.`
+            )
+          );
+        }
+        if (match.best.score < LOW_CONFIDENCE_THRESHOLD) {
+          counts.lowConfidence++;
+        }
+      });
+    }
+  } finally {
+    // Searches still waiting for the limiter are not started.
+    stopped = true;
+  }
+}
+
+/**
+ * Adds the items at the positions their source order asks for, with one call
+ * per run of items that end up next to each other, and keeps the layout up
+ * to date. Returns the results in item order.
+ */
+async function addInSourceOrder(
+  destination: DestinationProvider,
+  destinationPlaylistId: string,
+  layout: PlaylistLayout,
+  items: { sourcePosition: number; itemId: string }[]
+): Promise<AddItemResult[]> {
+  const results: AddItemResult[] = [];
+  let start = 0;
+  while (start < items.length) {
+    const position = insertPosition(layout, items[start].sourcePosition);
+    layout.splice(position, 0, items[start].sourcePosition);
+    let end = start + 1;
+    while (
+      end < items.length &&
+      insertPosition(layout, items[end].sourcePosition) ===
+        position + end - start
+    ) {
+      layout.splice(position + end - start, 0, items[end].sourcePosition);
+      end++;
+    }
+
+    const run = items.slice(start, end);
+    const runResults = await destination.addItems(
+      destinationPlaylistId,
+      run.map((item) => item.itemId),
+      position
+    );
+    run.forEach((item, i) => {
+      const result = runResults[i] ?? { added: false };
+      if (!result.added) {
+        layout.splice(layout.indexOf(item.sourcePosition), 1);
+      }
+      results.push(result);
+    });
+    start = end;
+  }
+  return results;
+}
+
+function printSummary(
+  playlist: Playlist,
+  destination: DestinationProvider,
+  destinationPlaylistId: string,
+  counts: TransferCounts
+): void {
+  console.log(chalk.magenta(`\nFinished processing "${playlist.name}".`));
+  if (counts.skipped > 0) {
+    console.log(
+      chalk.gray(`  Skipped (already done earlier): ${counts.skipped} tracks`)
+    );
+  }
+  console.log(chalk.green(`  Successfully added: ${counts.added} tracks`));
+  if (counts.alreadyPresent > 0) {
+    console.log(
+      chalk.gray(`  Already in the playlist: ${counts.alreadyPresent} tracks`)
+    );
+  }
+  console.log(chalk.yellow(`  Could not find: ${counts.notFound} tracks`));
+  if (counts.lowConfidence > 0) {
+    console.log(
+      chalk.yellow(
+        `  Low-confidence matches (worth checking): ${counts.lowConfidence} tracks`
+      )
+    );
+  }
+  if (counts.failed > 0) {
+    console.log(
+      chalk.red(`  Failed to add (found but error): ${counts.failed} tracks`)
+    );
+  }
+  if (counts.removed > 0) {
     console.log(
-      chalk.red(`  Failed to add (found but error): ${failedCount} tracks`)
+      chalk.gray(`  Removed (no longer in the source): ${counts.removed} tracks`)
     );
   }
   console.log(
     chalk.cyan(
-      `  Check the new YouTube playlist: https://www.youtube.com/playlist?list=${youtubePlaylistId}`
+      `  Check the ${destination.name} playlist: ${destination.playlistUrl(
+        destinationPlaylistId
+      )}`
     )
   );
 }
@@ -2,7 +2,7 @@ import axios, { AxiosInstance } from "axios";
 import http from "http";
 import url from "url";
 import open from "open";
-import { OAuth2Client } from "google-auth-library";
+import { OAuth2Client, Credentials } from "google-auth-library";
 import {
   saveGoogleToken,
   loadGoogleToken,
@@ -10,16 +10,47 @@ import {
   deleteGoogleToken,
   getCallbackPort,
 } from "./config.js";
+import {
+  MatchTarget,
+  MatchPreference,
+  ScoredCandidate,
+  LOW_CONFIDENCE_THRESHOLD,
+  rankCandidates,
+  parseIsoDuration,
+  parseVideoTitle,
+} from "./matcher.js";
+import { getCachedMatch, cacheMatch, pinMatch } from "./cache.js";
+import { AuthMode, promptForAuthorizationCode } from "./auth.js";
+import {
+  Track,
+  Playlist,
+  PlaylistEntry,
+  MatchedItem,
+  MatchResult,
+  SourceProvider,
+  DestinationProvider,
+  AddItemResult,
+  PlaylistPrivacy,
+} from "./provider.js";
+import { attachQuotaTracker, QuotaExceededError } from "./quota.js";
+import { createHttpClient } from "./http.js";
 
 export interface YouTubeVideo {
   id: { videoId: string };
-  snippet: { title: string; channelTitle: string };
+  snippet: { title: string; channelTitle: string; description?: string };
+}
+
+export interface YouTubeVideoDetails {
+  id: string;
+  contentDetails: { duration: string };
+  snippet?: { description: string };
 }
 
 export interface YouTubePlaylist {
   id: string;
-  snippet: { title: string; description: string };
+  snippet: { title: string; description: string; channelTitle?: string };
   status: { privacyStatus: string };
+  contentDetails?: { itemCount: number };
 }
 
 export interface YouTubePlaylistItem {
@@ -31,12 +62,33 @@ export interface YouTubePlaylistItem {
       videoId: string;
     };
     title: string;
+    videoOwnerChannelTitle?: string;
   };
 }
 
+/**
+ * Accepts a bare video ID or any common YouTube URL form (watch, youtu.be,
+ * shorts, music.youtube.com) and returns the video ID, or null.
+ */
+export function parseYouTubeVideoId(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^[\w-]{11}$/.test(trimmed)) return trimmed;
+  try {
+    const parsed = new URL(trimmed);
+    const fromQuery = parsed.searchParams.get("v");
+    if (fromQuery && /^[\w-]{11}$/.test(fromQuery)) return fromQuery;
+    const lastSegment = parsed.pathname.split("/").filter(Boolean).pop();
+    if (lastSegment && /^[\w-]{11}$/.test(lastSegment)) return lastSegment;
+  } catch {
+    return null;
+  }
+  return null;
+}
+
 async function getYouTubeAuthorizationCode(
   oAuth2Client: OAuth2Client,
-  port: number
+  port: number,
+  mode: AuthMode
 ): Promise<string> {
   const creds = getGoogleCredentials();
   if (!creds.scopes || !creds.redirectUri) {
@@ -52,6 +104,9 @@ async function getYouTubeAuthorizationCode(
 
   console.log("\nPlease authorize this app with Google (YouTube):");
   console.log(authUrl);
+  if (mode === "manual") {
+    return promptForAuthorizationCode("Google");
+  }
   await open(authUrl);
 
   return new Promise((resolve, reject) => {
@@ -104,7 +159,98 @@ async function getYouTubeAuthorizationCode(
   });
 }
 
-export async function getYouTubeToken(): Promise<OAuth2Client> {
+const GOOGLE_DEVICE_CODE_URL = "https://oauth2.googleapis.com/device/code";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+// The device flow only allows the plain YouTube scope, which grants the same
+// access as youtube.force-ssl.
+const DEVICE_FLOW_SCOPE = "https://www.googleapis.com/auth/youtube";
+
+interface GoogleDeviceCode {
+  device_code: string;
+  user_code: string;
+  verification_url: string;
+  expires_in: number;
+  interval: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * OAuth device authorization flow: the user enters a short code on another
+ * device while this process polls for the token. Needs a Google OAuth client
+ * of type "TVs and Limited Input devices".
+ */
+async function getYouTubeTokenWithDeviceCode(): Promise<Credentials> {
+  const creds = getGoogleCredentials();
+  const formHeaders = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+
+  let deviceCode: GoogleDeviceCode;
+  try {
+    const response = await axios.post<GoogleDeviceCode>(
+      GOOGLE_DEVICE_CODE_URL,
+      new URLSearchParams({
+        client_id: creds.clientId!,
+        scope: DEVICE_FLOW_SCOPE,
+      }).toString(),
+      { headers: formHeaders }
+    );
+    deviceCode = response.data;
+  } catch (error: any) {
+    console.error(
+      "Error starting Google device authorization:",
+      error.response?.data?.error_description ??
+        error.response?.data?.error ??
+        error.message
+    );
+    throw new Error(
+      'Could not start device authorization. The Google OAuth client must be of type "TVs and Limited Input devices".'
+    );
+  }
+
+  console.log(
+    `\nTo authorize this app with Google (YouTube), open ${deviceCode.verification_url} on any device and enter the code: ${deviceCode.user_code}`
+  );
+
+  let intervalMs = deviceCode.interval * 1000;
+  const deadline = Date.now() + deviceCode.expires_in * 1000;
+  while (Date.now() < deadline) {
+    await sleep(intervalMs);
+    try {
+      const response = await axios.post(
+        GOOGLE_TOKEN_URL,
+        new URLSearchParams({
+          client_id: creds.clientId!,
+          client_secret: creds.clientSecret!,
+          device_code: deviceCode.device_code,
+          grant_type: DEVICE_CODE_GRANT_TYPE,
+        }).toString(),
+        { headers: formHeaders }
+      );
+      const { expires_in, ...token } = response.data;
+      return { ...token, expiry_date: Date.now() + expires_in * 1000 };
+    } catch (error: any) {
+      const reason = error.response?.data?.error;
+      if (reason === "authorization_pending") continue;
+      if (reason === "slow_down") {
+        intervalMs += 5 * 1000;
+        continue;
+      }
+      throw new Error(
+        `Google device authorization failed: ${reason ?? error.message}`
+      );
+    }
+  }
+  throw new Error("Device authorization timed out.");
+}
+
+export async function getYouTubeToken(
+  mode: AuthMode = "browser"
+): Promise<OAuth2Client> {
   const creds = getGoogleCredentials();
   const port = getCallbackPort();
   if (!creds.clientId || !creds.clientSecret || !creds.redirectUri) {
@@ -141,7 +287,14 @@ export async function getYouTubeToken(): Promise<OAuth2Client> {
     return oAuth2Client;
   } else {
     console.log("No valid Google token found. Starting authentication flow...");
-    const code = await getYouTubeAuthorizationCode(oAuth2Client, port);
+    if (mode === "device") {
+      const tokens = await getYouTubeTokenWithDeviceCode();
+      oAuth2Client.setCredentials(tokens);
+      saveGoogleToken(tokens);
+      console.log("Google token obtained and saved.");
+      return oAuth2Client;
+    }
+    const code = await getYouTubeAuthorizationCode(oAuth2Client, port, mode);
     try {
       const { tokens } = await oAuth2Client.getToken(code);
       oAuth2Client.setCredentials(tokens);
@@ -159,7 +312,7 @@ export async function getYouTubeToken(): Promise<OAuth2Client> {
 }
 
 export function createYouTubeClient(auth: OAuth2Client): AxiosInstance {
-  const client = axios.create({
+  const client = createHttpClient({
     baseURL: "https://www.googleapis.com/youtube/v3",
   });
 
@@ -184,15 +337,62 @@ export function createYouTubeClient(auth: OAuth2Client): AxiosInstance {
     }
   );
 
-  return client;
+  return attachQuotaTracker(client);
+}
+
+export interface YouTubeSearchResult {
+  best: ScoredCandidate;
+  candidates: ScoredCandidate[];
+}
+
+/** Returns no details (after a warning) when the request fails. */
+async function getYouTubeVideoDetails(
+  client: AxiosInstance,
+  videoIds: string[],
+  part: string
+): Promise<YouTubeVideoDetails[]> {
+  if (videoIds.length === 0) return [];
+  try {
+    const response = await client.get<{ items: YouTubeVideoDetails[] }>(
+      "/videos",
+      { params: { part, id: videoIds.join(",") } }
+    );
+    return response.data.items ?? [];
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
+    console.warn(
+      "  Could not fetch video details, matching without them:",
+      error.response?.data?.error?.message ?? error.message
+    );
+    return [];
+  }
+}
+
+export async function getYouTubeVideoDurations(
+  client: AxiosInstance,
+  videoIds: string[]
+): Promise<Map<string, number>> {
+  const durations = new Map<string, number>();
+  const items = await getYouTubeVideoDetails(
+    client,
+    videoIds,
+    "contentDetails"
+  );
+  for (const item of items) {
+    const durationMs = parseIsoDuration(item.contentDetails.duration);
+    if (durationMs !== undefined) {
+      durations.set(item.id, durationMs);
+    }
+  }
+  return durations;
 }
 
 export async function searchYouTubeVideo(
   client: AxiosInstance,
-  trackName: string,
-  artistName: string
-): Promise<YouTubeVideo | null> {
-  const query = `${trackName} ${artistName}`;
+  target: MatchTarget,
+  query = `${target.name} ${target.artists.join(", ")}`,
+  preference: MatchPreference = "any"
+): Promise<YouTubeSearchResult | null> {
   console.log(`Searching YouTube for: "${query}"`);
   try {
     const response = await client.get("/search", {
@@ -205,15 +405,43 @@ export async function searchYouTubeVideo(
       },
     });
 
-    if (response.data.items && response.data.items.length > 0) {
-      const bestResult = response.data.items[0] as YouTubeVideo;
-      console.log(`  Found: "${bestResult.snippet.title}" (ID: ${bestResult.id.videoId})`);
-      return bestResult;
-    } else {
+    const items: YouTubeVideo[] = response.data.items ?? [];
+    if (items.length === 0) {
       console.log(`  No relevant video found for "${query}".`);
       return null;
     }
+
+    // The snippet part costs no extra quota and has the full description.
+    const details = new Map(
+      (
+        await getYouTubeVideoDetails(
+          client,
+          items.map((item) => item.id.videoId),
+          "contentDetails,snippet"
+        )
+      ).map((item) => [item.id, item])
+    );
+    const candidates = rankCandidates(
+      target,
+      items.map((video) => {
+        const videoDetails = details.get(video.id.videoId);
+        return {
+          video,
+          durationMs:
+            videoDetails &&
+            parseIsoDuration(videoDetails.contentDetails.duration),
+          description: videoDetails?.snippet?.description,
+        };
+      }),
+      preference
+    );
+    const best = candidates[0];
+    console.log(
+      `  Found: "${best.video.snippet.title}" (ID: ${best.video.id.videoId}, score: ${best.score})`
+    );
+    return { best, candidates };
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error(
       `Error searching YouTube for "${query}":`,
       error.response?.data?.error?.message ?? error.message
@@ -222,10 +450,14 @@ export async function searchYouTubeVideo(
   }
 }
 
+// Longer titles are rejected by playlists.insert.
+const YOUTUBE_TITLE_MAX_LENGTH = 150;
+
 export async function createYouTubePlaylist(
   client: AxiosInstance,
   title: string,
-  description: string
+  description: string,
+  privacy: PlaylistPrivacy = "private"
 ): Promise<string | null> {
   console.log(`Creating YouTube playlist: "${title}"`);
   try {
@@ -233,12 +465,12 @@ export async function createYouTubePlaylist(
       "/playlists",
       {
         snippet: {
-          title: title,
+          title: title.slice(0, YOUTUBE_TITLE_MAX_LENGTH),
           description:
             description || `Playlist migrated from Spotify - ${title}`,
         },
         status: {
-          privacyStatus: "private",
+          privacyStatus: privacy,
         },
       },
       {
@@ -251,6 +483,7 @@ export async function createYouTubePlaylist(
     console.log(`  Created playlist with ID: ${playlistId}`);
     return playlistId;
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error(
       `Error creating YouTube playlist "${title}":`,
       error.response?.data?.error?.message ?? error.message
@@ -262,8 +495,9 @@ export async function createYouTubePlaylist(
 export async function addVideoToYouTubePlaylist(
   client: AxiosInstance,
   playlistId: string,
-  videoId: string
-): Promise<boolean> {
+  videoId: string,
+  position?: number
+): Promise<AddItemResult> {
   try {
     await client.post<YouTubePlaylistItem>(
       "/playlistItems",
@@ -274,6 +508,7 @@ export async function addVideoToYouTubePlaylist(
             kind: "youtube#video",
             videoId: videoId,
           },
+          position: position,
         },
       },
       {
@@ -282,15 +517,16 @@ export async function addVideoToYouTubePlaylist(
         },
       }
     );
-    return true;
+    return { added: true };
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
     const errorDetails = error.response?.data?.error?.errors?.[0];
     if (
       errorDetails?.reason === "duplicate" ||
       errorDetails?.reason === "playlistItemDuplicate"
     ) {
       console.warn(`  Video ID ${videoId} already exists in playlist ${playlistId}. Skipping.`);
-      return true;
+      return { added: true };
     }
     if (
       errorDetails?.reason === "forbidden" &&
@@ -301,12 +537,373 @@ export async function addVideoToYouTubePlaylist(
       console.warn(
         `  Error adding video ID ${videoId} (may be due to disabled comments or other issue). Skipping.`
       );
-      return false;
+      return { added: false, error: error.response.data.error.message };
     }
+    const message = errorDetails?.message ?? error.message;
     console.error(
       `Error adding video ID ${videoId} to playlist ${playlistId}:`,
-      errorDetails?.message ?? error.message
+      message
+    );
+    return { added: false, error: message };
+  }
+}
+
+export async function getMyYouTubePlaylists(
+  client: AxiosInstance
+): Promise<YouTubePlaylist[]> {
+  let playlists: YouTubePlaylist[] = [];
+  let pageToken: string | undefined = undefined;
+
+  console.log("Fetching your YouTube playlists...");
+  try {
+    do {
+      const response: {
+        data: {
+          items: YouTubePlaylist[];
+          nextPageToken?: string;
+        };
+      } = await client.get("/playlists", {
+        params: {
+          part: "snippet,status,contentDetails",
+          mine: true,
+          maxResults: 50,
+          pageToken: pageToken,
+        },
+      });
+      playlists = playlists.concat(response.data.items);
+      pageToken = response.data.nextPageToken;
+    } while (pageToken);
+    console.log(`Found ${playlists.length} playlists.`);
+    return playlists;
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
+    console.error(
+      "Error fetching YouTube playlists:",
+      error.response?.data?.error?.message ?? error.message
+    );
+    throw new Error("Could not fetch YouTube playlists.");
+  }
+}
+
+export async function getYouTubePlaylistItems(
+  client: AxiosInstance,
+  playlistId: string
+): Promise<YouTubePlaylistItem[]> {
+  let items: YouTubePlaylistItem[] = [];
+  let pageToken: string | undefined = undefined;
+
+  console.log(`Fetching items of YouTube playlist ID: ${playlistId}...`);
+  try {
+    do {
+      const response: {
+        data: {
+          items: YouTubePlaylistItem[];
+          nextPageToken?: string;
+        };
+      } = await client.get("/playlistItems", {
+        params: {
+          part: "snippet",
+          playlistId: playlistId,
+          maxResults: 50,
+          pageToken: pageToken,
+        },
+      });
+      items = items.concat(response.data.items);
+      pageToken = response.data.nextPageToken;
+    } while (pageToken);
+    console.log(`Found ${items.length} items.`);
+    return items;
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
+    console.error(
+      `Error fetching items of YouTube playlist ${playlistId}:`,
+      error.response?.data?.error?.message ?? error.message
+    );
+    throw new Error(`Could not fetch items of YouTube playlist ${playlistId}.`);
+  }
+}
+
+export async function removeYouTubePlaylistItem(
+  client: AxiosInstance,
+  playlistItemId: string
+): Promise<boolean> {
+  try {
+    await client.delete("/playlistItems", {
+      params: {
+        id: playlistItemId,
+      },
+    });
+    return true;
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
+    console.error(
+      `Error removing playlist item ${playlistItemId}:`,
+      error.response?.data?.error?.message ?? error.message
+    );
+    return false;
+  }
+}
+
+export async function moveYouTubePlaylistItem(
+  client: AxiosInstance,
+  playlistId: string,
+  playlistItemId: string,
+  videoId: string,
+  position: number
+): Promise<boolean> {
+  try {
+    // playlistItems.update replaces the whole snippet, so the video is sent
+    // along with the new position.
+    await client.put(
+      "/playlistItems",
+      {
+        id: playlistItemId,
+        snippet: {
+          playlistId: playlistId,
+          resourceId: {
+            kind: "youtube#video",
+            videoId: videoId,
+          },
+          position: position,
+        },
+      },
+      {
+        params: {
+          part: "snippet",
+        },
+      }
+    );
+    return true;
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) throw error;
+    console.error(
+      `Error moving playlist item ${playlistItemId} to position ${position}:`,
+      error.response?.data?.error?.message ?? error.message
     );
     return false;
   }
 }
+
+const UNAVAILABLE_VIDEO_TITLES = new Set(["Deleted video", "Private video"]);
+const VIDEO_DETAILS_BATCH_SIZE = 50;
+
+function youTubeVideoUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+function toMatchedItem(candidate: ScoredCandidate): MatchedItem {
+  return {
+    id: candidate.video.id.videoId,
+    title: candidate.video.snippet.title,
+    subtitle: candidate.video.snippet.channelTitle,
+    url: youTubeVideoUrl(candidate.video.id.videoId),
+    score: candidate.score,
+  };
+}
+
+/** preference only affects how tracks are matched by search. */
+export function createYouTubeProvider(
+  client: AxiosInstance,
+  preference: MatchPreference = "any"
+): SourceProvider & DestinationProvider {
+  return {
+    name: "YouTube",
+    addBatchSize: 1,
+
+    async listPlaylists(): Promise<Playlist[]> {
+      const playlists = await getMyYouTubePlaylists(client);
+      return playlists.map((p) => ({
+        id: p.id,
+        name: p.snippet.title,
+        description: p.snippet.description,
+        owner: p.snippet.channelTitle,
+        url: `https://www.youtube.com/playlist?list=${p.id}`,
+        trackCount: p.contentDetails?.itemCount ?? 0,
+      }));
+    },
+
+    async getTracks(playlistId: string): Promise<Track[]> {
+      const items = (await getYouTubePlaylistItems(client, playlistId)).filter(
+        (item) => !UNAVAILABLE_VIDEO_TITLES.has(item.snippet.title)
+      );
+      const videoIds = items.map((item) => item.snippet.resourceId.videoId);
+      const durations = new Map<string, number>();
+      for (let i = 0; i < videoIds.length; i += VIDEO_DETAILS_BATCH_SIZE) {
+        const batch = await getYouTubeVideoDurations(
+          client,
+          videoIds.slice(i, i + VIDEO_DETAILS_BATCH_SIZE)
+        );
+        batch.forEach((durationMs, videoId) =>
+          durations.set(videoId, durationMs)
+        );
+      }
+      return items.map((item) => ({
+        id: item.snippet.resourceId.videoId,
+        ...parseVideoTitle(
+          item.snippet.title,
+          item.snippet.videoOwnerChannelTitle ?? ""
+        ),
+        durationMs: durations.get(item.snippet.resourceId.videoId),
+      }));
+    },
+
+    createPlaylist(
+      name: string,
+      description: string,
+      privacy?: PlaylistPrivacy
+    ) {
+      return createYouTubePlaylist(client, name, description, privacy);
+    },
+
+    async search(track: Track, query?: string): Promise<MatchResult | null> {
+      const cached = query ? undefined : getCachedMatch(track.id);
+      // Matches found under another preference are searched again, as are
+      // uncertain ones cached without the alternatives a review offers.
+      if (
+        cached &&
+        (cached.pinned ||
+          ((cached.preference ?? "any") === preference &&
+            (cached.alternatives || cached.score >= LOW_CONFIDENCE_THRESHOLD)))
+      ) {
+        if (!cached.videoId) return null;
+        return {
+          best: {
+            id: cached.videoId,
+            title: cached.videoTitle ?? cached.videoId,
+            subtitle: cached.channelTitle ?? "",
+            url: youTubeVideoUrl(cached.videoId),
+            score: cached.score,
+          },
+          alternatives: (cached.alternatives ?? []).map((alternative) => ({
+            id: alternative.videoId,
+            title: alternative.videoTitle,
+            subtitle: alternative.channelTitle,
+            url: youTubeVideoUrl(alternative.videoId),
+            score: alternative.score,
+          })),
+          fromCache: true,
+        };
+      }
+
+      const searchResult = await searchYouTubeVideo(
+        client,
+        track,
+        query,
+        preference
+      );
+      if (!searchResult) return null;
+
+      const best = searchResult.best;
+      if (!query) {
+        cacheMatch(track.id, {
+          videoId: best.video.id.videoId,
+          videoTitle: best.video.snippet.title,
+          channelTitle: best.video.snippet.channelTitle,
+          trackName: track.name,
+          artists: track.artists,
+          score: best.score,
+          alternatives: searchResult.candidates.slice(1).map((candidate) => ({
+            videoId: candidate.video.id.videoId,
+            videoTitle: candidate.video.snippet.title,
+            channelTitle: candidate.video.snippet.channelTitle,
+            score: candidate.score,
+          })),
+          preference,
+        });
+      }
+      return {
+        best: toMatchedItem(best),
+        alternatives: searchResult.candidates.slice(1).map(toMatchedItem),
+        fromCache: false,
+      };
+    },
+
+    parseItemInput(input: string): MatchedItem | null {
+      const videoId = parseYouTubeVideoId(input);
+      if (!videoId) return null;
+      return {
+        id: videoId,
+        title: videoId,
+        subtitle: "",
+        url: youTubeVideoUrl(videoId),
+        score: 1,
+      };
+    },
+
+    rememberChoice(track: Track, item: MatchedItem | null): void {
+      if (!track.id) return;
+      pinMatch(track.id, item?.id ?? null, {
+        videoTitle: item?.title,
+        channelTitle: item?.subtitle,
+        trackName: track.name,
+        artists: track.artists,
+      });
+    },
+
+    wasSkipped(track: Track): boolean {
+      const cached = getCachedMatch(track.id);
+      return cached !== undefined && cached.videoId === null;
+    },
+
+    async addItems(
+      playlistId: string,
+      itemIds: string[],
+      position?: number
+    ): Promise<AddItemResult[]> {
+      const results: AddItemResult[] = [];
+      let added = 0;
+      for (const videoId of itemIds) {
+        const result = await addVideoToYouTubePlaylist(
+          client,
+          playlistId,
+          videoId,
+          position === undefined ? undefined : position + added
+        );
+        if (result.added) added++;
+        results.push(result);
+      }
+      return results;
+    },
+
+    async listItems(playlistId: string): Promise<PlaylistEntry[]> {
+      const items = await getYouTubePlaylistItems(client, playlistId);
+      return items.map((item) => ({
+        entryId: item.id,
+        itemId: item.snippet.resourceId.videoId,
+        title: item.snippet.title,
+      }));
+    },
+
+    removeItem(_playlistId: string, entryId: string): Promise<boolean> {
+      return removeYouTubePlaylistItem(client, entryId);
+    },
+
+    moveItem(
+      playlistId: string,
+      entry: PlaylistEntry,
+      position: number
+    ): Promise<boolean> {
+      return moveYouTubePlaylistItem(
+        client,
+        playlistId,
+        entry.entryId,
+        entry.itemId,
+        position
+      );
+    },
+
+    playlistUrl(playlistId: string): string {
+      return `https://www.youtube.com/playlist?list=${playlistId}`;
+    },
+
+    parsePlaylistUrl(input: string): string | null {
+      try {
+        const parsed = new URL(input.trim());
+        if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return null;
+        return parsed.searchParams.get("list");
+      } catch {
+        return null;
+      }
+    },
+  };
+}